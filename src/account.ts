@@ -0,0 +1,112 @@
+import { Logging } from 'homebridge';
+import { google } from 'googleapis';
+import path from 'path';
+import { GoogleNestAccountConfig } from './config';
+import { GoogleNestAuthorization } from './oauth';
+import { GoogleNestDeviceStore } from './store';
+import { GoogleNestEventSubscriber } from './events';
+import { GoogleNestApiClient, GoogleNestClient } from './client';
+
+/**
+ * Returns a logger prefixing every message with the account name.
+ */
+const prefixLog = (log: Logging, name: string): Logging => {
+  const prefix = `[${name}] `;
+  const prefixed = ((message: string, ...parameters: unknown[]) => log(prefix + message, ...parameters)) as Logging;
+  prefixed.prefix = log.prefix;
+  prefixed.info = (message, ...parameters) => log.info(prefix + message, ...parameters);
+  prefixed.success = (message, ...parameters) => log.success(prefix + message, ...parameters);
+  prefixed.warn = (message, ...parameters) => log.warn(prefix + message, ...parameters);
+  prefixed.error = (message, ...parameters) => log.error(prefix + message, ...parameters);
+  prefixed.debug = (message, ...parameters) => log.debug(prefix + message, ...parameters);
+  prefixed.log = (level, message, ...parameters) => log.log(level, prefix + message, ...parameters);
+  return prefixed;
+};
+
+/**
+ * Returns the directory of the files persisted for the devices of an account, the account without a name uses the
+ * one of the plugin like the single account of earlier versions.
+ */
+export const accountStoragePath = (storagePath: string, name?: string) => {
+  return name ? path.join(storagePath, 'accounts', name) : storagePath;
+};
+
+/**
+ * A Google account with its Device Access project: its own OAuth client, SDM client, device store and
+ * Pub/Sub subscription. Messages about the account and its devices are prefixed with its name.
+ */
+export class GoogleNestAccount {
+  readonly name?: string = this.config.name;
+  readonly log: Logging = this.name ? prefixLog(this.platformLog, this.name) : this.platformLog;
+  // device ids are only unique within an account, the same device may even be part of two projects
+  readonly storagePath = accountStoragePath(this.pluginStoragePath, this.name);
+
+  readonly authorization: GoogleNestAuthorization;
+  readonly client: GoogleNestClient;
+  // state of all devices of the account, refreshed with a single request
+  readonly store: GoogleNestDeviceStore;
+  // set when a Pub/Sub subscription is configured, devices fall back to polling otherwise
+  readonly events?: GoogleNestEventSubscriber;
+
+  // set once authorized, the devices are discovered from then on
+  started = false;
+
+  constructor(
+    private readonly platformLog: Logging,
+    private readonly config: GoogleNestAccountConfig,
+    private readonly pluginStoragePath: string,
+    // tests pass a fake instead of the googleapis client
+    client?: GoogleNestClient,
+  ) {
+    const auth = new google.auth.OAuth2(this.config.clientId, this.config.clientSecret);
+    this.authorization = new GoogleNestAuthorization(this.log, this.config, this.pluginStoragePath, auth);
+
+    this.client = client ?? new GoogleNestApiClient(google.smartdevicemanagement({
+      'version': 'v1',
+      auth,
+    }));
+    this.store = new GoogleNestDeviceStore(this.log, this.client, 'enterprises/' + this.config.projectId);
+
+    if (this.config.subscriptionId) {
+      this.events = new GoogleNestEventSubscriber(this.log, this.createPubsub(auth), this.config.subscriptionId,
+        e => this.authorization.handleAuthorizationError(e));
+    }
+  }
+
+  /**
+   * Returns the seed of the UUID of a device's accessory, namespaced for named accounts so that the account without
+   * a name keeps the accessories of earlier versions.
+   */
+  accessorySeed(deviceName: string) {
+    return this.name ? `${this.name}/${deviceName}` : deviceName;
+  }
+
+  stop() {
+    this.authorization.stopServer();
+    this.events?.stop();
+    this.store.stop();
+  }
+
+  /**
+   * Creates the Pub/Sub client, pointed at a local emulator when `pubsubEmulatorHost` is configured.
+   */
+  private createPubsub(auth: InstanceType<typeof google.auth.OAuth2>) {
+    if (!this.config.pubsubEmulatorHost) {
+      return google.pubsub({ version: 'v1', auth });
+    }
+
+    // the emulator does not check credentials, use a static token to avoid hitting Google's token endpoint
+    const emulatorAuth = new google.auth.OAuth2();
+    emulatorAuth.setCredentials({
+      access_token: 'emulator',
+      expiry_date: Number.MAX_SAFE_INTEGER,
+    });
+
+    this.log.info('Using Pub/Sub emulator at', this.config.pubsubEmulatorHost);
+    return google.pubsub({
+      version: 'v1',
+      rootUrl: 'http://' + this.config.pubsubEmulatorHost + '/',
+      auth: emulatorAuth,
+    });
+  }
+}
@@ -1,20 +1,102 @@
 import { PlatformAccessory, Logging } from 'homebridge';
 import { GoogleNestPlatform } from './platform';
-import { smartdevicemanagement_v1 } from 'googleapis';
-import { Mutex, withTimeout } from 'async-mutex';
+import { Device } from './client';
+import { GoogleNestDeviceStoreHandler } from './store';
 import { GoogleNestThermostatCharacteristics } from './characteristics';
+import { GoogleNestEventHandler } from './events';
+import { GoogleNestCommandQueue } from './commands';
+import { GoogleNestRuntime } from './runtime';
+import { minimumSetpointGap, roundSetpoint, setpointRange } from './setpoints';
+import { CommandParams } from './client';
+import { GoogleNestAccount } from './account';
+import { GoogleNestTraitCache } from './traitCache';
 
-const seconds = (x: number) => {
+export const seconds = (x: number) => {
   return x * 1000;
 };
 
+export type Traits = Device['traits'];
+
 export interface GoogleNestThermostatUpdateHandler {
   onDisplayUnit(unit: 'FAHRENHEIT' | 'CELSIUS'): void;
+  onCharacteristics(characteristics: GoogleNestThermostatCharacteristics): void;
+  onHealth(healthy: boolean): void;
 }
 
-const deviceToTraits = (device: smartdevicemanagement_v1.Schema$GoogleHomeEnterpriseSdmV1Device) => {
+const formatDuration = (ms: number) => {
+  const total = Math.round(ms / 1000);
+  const [h, m, s] = [Math.floor(total / 3600), Math.floor(total / 60) % 60, total % 60];
+  return (h > 0 ? h + 'h ' : '') + (h > 0 || m > 0 ? m + 'm ' : '') + s + 's';
+};
+
+/**
+ * Applies a partial trait update (as delivered by device events) on top of a full trait map.
+ */
+const mergeTraits = (traits: Traits, update: Traits): Traits => {
+  const merged = { ...traits };
+  for (const [name, value] of Object.entries(update ?? {})) {
+    merged[name] = { ...merged[name], ...value };
+  }
+  return merged;
+};
+
+/**
+ * Returns the traits a successful command is expected to leave the device with.
+ */
+const commandToTraits = (command: string, params): Traits => {
+  switch (command) {
+    case 'sdm.devices.commands.ThermostatMode.SetMode':
+      return { 'sdm.devices.traits.ThermostatMode': { mode: params.mode } };
+    case 'sdm.devices.commands.ThermostatEco.SetMode':
+      return { 'sdm.devices.traits.ThermostatEco': { mode: params.mode } };
+    case 'sdm.devices.commands.ThermostatTemperatureSetpoint.SetHeat':
+      return { 'sdm.devices.traits.ThermostatTemperatureSetpoint': { heatCelsius: params.heatCelsius } };
+    case 'sdm.devices.commands.ThermostatTemperatureSetpoint.SetCool':
+      return { 'sdm.devices.traits.ThermostatTemperatureSetpoint': { coolCelsius: params.coolCelsius } };
+    case 'sdm.devices.commands.ThermostatTemperatureSetpoint.SetRange':
+      return {
+        'sdm.devices.traits.ThermostatTemperatureSetpoint': { heatCelsius: params.heatCelsius, coolCelsius: params.coolCelsius },
+      };
+    case 'sdm.devices.commands.Fan.SetTimer':
+      return {
+        'sdm.devices.traits.Fan': params.timerMode === 'ON'
+          ? { timerMode: 'ON', timerTimeout: new Date(Date.now() + seconds(parseInt(params.duration ?? '900s', 10))).toISOString() }
+          : { timerMode: 'OFF', timerTimeout: undefined },
+      };
+    default:
+      return undefined;
+  }
+};
+
+// fields commands are only expected to set roughly, the device's values are taken as they are
+const estimatedFields = ['timerTimeout'];
+
+/**
+ * Lists the fields of `expected` the device reported differently, temperatures are compared with some tolerance
+ * as the device rounds them to its display unit.
+ */
+const diffTraits = (traits: Traits, expected: Traits) => {
+  const diffs: string[] = [];
+  for (const [name, fields] of Object.entries(expected ?? {})) {
+    for (const [field, value] of Object.entries(fields)) {
+      if (estimatedFields.includes(field)) {
+        continue;
+      }
+      const actual = traits?.[name]?.[field];
+      const same = typeof value === 'number' && typeof actual === 'number' ? Math.abs(value - actual) < 0.3 : value === actual;
+      if (!same) {
+        diffs.push(`${field}: expected ${value}, got ${actual}`);
+      }
+    }
+  }
+  return diffs;
+};
+
+const deviceToTraits = (device: Device) => {
   const connectivity = device.traits?.['sdm.devices.traits.Connectivity']?.status;
   const ecoMode = device.traits?.['sdm.devices.traits.ThermostatEco']?.mode;
+  const ecoHeatCelsius = device.traits?.['sdm.devices.traits.ThermostatEco']?.heatCelsius;
+  const ecoCoolCelsius = device.traits?.['sdm.devices.traits.ThermostatEco']?.coolCelsius;
   const currentTemperature = device.traits?.['sdm.devices.traits.Temperature']?.['ambientTemperatureCelsius'];
   const hvacStatus = device.traits?.['sdm.devices.traits.ThermostatHvac']?.status;
   const targetMode = device.traits?.['sdm.devices.traits.ThermostatMode']?.mode;
@@ -22,9 +104,12 @@ const deviceToTraits = (device: smartdevicemanagement_v1.Schema$GoogleHomeEnterp
   const displayUnit = device.traits?.['sdm.devices.traits.Settings']?.temperatureScale;
   const temperatureSetpoint = device.traits?.['sdm.devices.traits.ThermostatTemperatureSetpoint'];
   const relativeHumidity = device.traits?.['sdm.devices.traits.Humidity']?.ambientHumidityPercent;
+  const fanTimerMode = device.traits?.['sdm.devices.traits.Fan']?.timerMode;
+  const fanTimerTimeout = device.traits?.['sdm.devices.traits.Fan']?.timerTimeout;
   return {
     connectivity,
     ecoMode,
+    ecoTemperatureSetpoint: { heatCelsius: ecoHeatCelsius, coolCelsius: ecoCoolCelsius },
     currentTemperature,
     hvacStatus,
     targetMode,
@@ -32,6 +117,8 @@ const deviceToTraits = (device: smartdevicemanagement_v1.Schema$GoogleHomeEnterp
     displayUnit,
     temperatureSetpoint,
     relativeHumidity,
+    fanTimerMode,
+    fanTimerTimeout,
   };
 };
 
@@ -42,9 +129,11 @@ class Cache {
   private characrestics?: GoogleNestThermostatCharacteristics;
 
   private timestamp: number = Date.now();
-  private timeout = seconds(5);
+  // set while the cached state lacks what the device changed on its own, the next read fetches it
+  private incomplete = false;
 
   constructor(
+    private readonly timeout: number,
     private readonly error: () => never,
   ) {}
 
@@ -60,86 +149,277 @@ class Cache {
     return this.characrestics;
   }
 
-  set(traits: DeviceTraits, characteristics?: GoogleNestThermostatCharacteristics) {
+  set(traits: DeviceTraits, characteristics: GoogleNestThermostatCharacteristics | undefined, timestamp: number) {
     this.traits = traits;
     this.characrestics = characteristics;
-    this.timestamp = Date.now();
+    this.timestamp = timestamp;
+    this.incomplete = false;
   }
 
-  isAlive(): boolean {
-    return this.traits !== null && (Date.now() - this.timestamp) <= this.timeout;
+  markIncomplete() {
+    this.incomplete = true;
+  }
+
+  getTimestamp() {
+    return this.timestamp;
+  }
+
+  isAlive(timeout = this.timeout): boolean {
+    return this.traits !== undefined && (Date.now() - this.timestamp) <= timeout;
+  }
+
+  isFresh(): boolean {
+    return !this.incomplete && this.isAlive();
   }
 }
 
-export class GoogleNestThermostatApi {
-  private log: Logging = this.platform.log;
-  private fetchMutex = withTimeout(new Mutex(), 500,
-    new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.RESOURCE_BUSY));
+export class GoogleNestThermostatApi implements GoogleNestEventHandler, GoogleNestDeviceStoreHandler {
+  private log: Logging = this.account.log;
+  private options = this.platform.getDeviceOptions(this.accessory);
+  private rawTraits?: Traits;
+  // the device as last listed, persisted along with the traits
+  private device?: Device;
+
+  // effects of successful commands not yet confirmed by a fetch
+  private pending?: { traits: Traits; since: number };
+
+  // unset until the first fetch, the device is unavailable while `outage` is set
+  private healthy?: boolean;
+  private outage?: { since: number; reason: string };
+
+  private commands = new GoogleNestCommandQueue(this.log, this.platform.api.hap, this.accessory.displayName,
+    (command, params) => this.account.client.executeCommand(this.accessory.context.name, command, params).catch(e => {
+      this.account.authorization.handleAuthorizationError(e);
+      throw e;
+    }));
+
+  readonly runtime = new GoogleNestRuntime(this.log, this.accessory.displayName, this.accessory.context.name, this.account.storagePath);
 
-  private cache = new Cache(() => {
+  private traitCache = new GoogleNestTraitCache(this.log, this.accessory.displayName, this.accessory.context.name,
+    this.account.storagePath);
+
+  private cache = new Cache(seconds(this.options.cacheTtl ?? this.platform.intervals.cacheTtl), () => {
     throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
   });
 
   constructor(
     private readonly platform: GoogleNestPlatform,
     private readonly accessory: PlatformAccessory,
-    private readonly gapi: smartdevicemanagement_v1.Smartdevicemanagement,
+    private readonly account: GoogleNestAccount,
     private readonly updateHandler: GoogleNestThermostatUpdateHandler,
   ) {}
 
-  private save(traits: DeviceTraits) {
-    if (this.cache.getTraits()?.displayUnit !== traits.displayUnit && traits.displayUnit) {
+  /**
+   * Tracks whether the device can be reached through the API, logging outages and recoveries.
+   */
+  private setHealth(healthy: boolean, reason: string) {
+    if (healthy && this.outage) {
+      this.log.info(this.accessory.displayName, 'is available again after', formatDuration(Date.now() - this.outage.since) + '.');
+      this.outage = undefined;
+    } else if (!healthy && !this.outage) {
+      this.log.warn(this.accessory.displayName, 'is unavailable:', reason);
+      this.outage = { since: Date.now(), reason };
+    } else if (!healthy && this.outage && this.outage.reason !== reason) {
+      this.log.debug(this.accessory.displayName, 'is still unavailable:', reason);
+      this.outage.reason = reason;
+    }
+
+    if (this.healthy !== healthy) {
+      this.healthy = healthy;
+      this.updateHandler.onHealth(healthy);
+    }
+  }
+
+  /**
+   * Returns the last known state without fetching, undefined before the first fetch.
+   */
+  getTraits() {
+    return this.cache.getTraits();
+  }
+
+  isHealthy(): boolean {
+    return this.healthy !== false;
+  }
+
+  /**
+   * Returns when the cached state was last current, undefined before the first fetch.
+   */
+  getUpdatedAt() {
+    return this.cache.getTraits() && this.cache.getTimestamp();
+  }
+
+  private save(rawTraits: Traits, updatedAt = Date.now()) {
+    const traits = deviceToTraits({ traits: rawTraits });
+    const previous = this.cache.getTraits();
+    this.rawTraits = rawTraits;
+    this.setHealth(traits.connectivity !== 'OFFLINE', 'the device reported it is offline');
+    this.runtime.update(traits.connectivity === 'OFFLINE' ? undefined : traits.hvacStatus);
+
+    if (previous?.displayUnit !== traits.displayUnit && traits.displayUnit) {
       this.updateHandler.onDisplayUnit(traits.displayUnit);
     }
 
+    if (this.device) {
+      this.traitCache.save({ ...this.device, traits: rawTraits }, updatedAt);
+    }
+
     if (traits.connectivity === 'OFFLINE') {
-      this.cache.set(traits);
+      this.cache.set(traits, undefined, updatedAt);
     } else {
-      this.cache.set(traits, new GoogleNestThermostatCharacteristics(traits, (msg: string) => {
+      const characteristics = new GoogleNestThermostatCharacteristics(traits, (msg: string) => {
         this.log.error(msg);
         throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.RESOURCE_DOES_NOT_EXIST);
-      }));
+      });
+      this.cache.set(traits, characteristics, updatedAt);
+
+      if (JSON.stringify(previous) !== JSON.stringify(traits)) {
+        this.updateHandler.onCharacteristics(characteristics);
+      }
     }
+
+    this.platform.mqtt?.publishState(this.accessory.context.name, traits);
   }
 
-  async fetch(): Promise<GoogleNestThermostatCharacteristics> {
-    const release = await this.fetchMutex.acquire();
-    try {
-      if (this.cache.isAlive()) {
-        return this.cache.getCharacrestics();
-      }
+  onTraitsUpdate(traits: Traits) {
+    if (!this.rawTraits) {
+      // Nothing to apply the update on yet, the next fetch will return the full state.
+      return;
+    }
 
-      const res = await this.gapi.enterprises.devices.get({
-        name: this.accessory.context.name,
-      });
+    this.save(mergeTraits(this.rawTraits, traits));
+  }
 
-      if (res.status === 200) {
-        this.save(deviceToTraits(res.data));
-      } else {
-        this.log.error('fetchState() failed, response:', JSON.stringify(res));
-        if (!this.cache.getTraits()) {
+  /**
+   * Stops accounting the runtime, called once the accessory is removed or Homebridge shuts down.
+   */
+  dispose() {
+    return this.runtime.dispose();
+  }
+
+  /**
+   * Takes the state of a listed device, `requestedAt` is when it was requested or, for a stored state, when it
+   * was current.
+   */
+  onDevice(device: Device, requestedAt: number) {
+    this.device = { name: device.name, type: device.type, parentRelations: device.parentRelations };
+    this.save(this.reconcile(device.traits, requestedAt), requestedAt);
+  }
+
+  onRefreshFailed(e: Error) {
+    this.account.authorization.handleAuthorizationError(e);
+    this.setHealth(false, 'fetching the device state failed, ' + e.message);
+  }
+
+  /**
+   * Returns the cached state, refreshing the devices of the platform once it is stale. The last known state is
+   * served while the refresh fails, until it is older than the maximum staleness.
+   */
+  async fetch(): Promise<GoogleNestThermostatCharacteristics> {
+    if (!this.cache.isFresh()) {
+      try {
+        // the store passes the refreshed state to onDevice()
+        await this.account.store.refresh();
+      } catch (e) {
+        if (!this.cache.isAlive(this.platform.maxStaleness)) {
+          // the store has passed the cause to onRefreshFailed(), HAP only needs the status
           throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE);
         }
+        this.log.debug('Serving the state of', this.accessory.displayName, 'from',
+          formatDuration(Date.now() - this.cache.getTimestamp()), 'ago:', (e as Error).message);
       }
-    } finally {
-      release();
     }
 
     return this.cache.getCharacrestics();
   }
 
-  async executeCommand(command: string, params) {
-    const res = await this.gapi.enterprises.devices.executeCommand({
-      name: this.accessory.context.name,
-      requestBody: {
-        command,
-        params,
-      },
-    });
+  /**
+   * Checks fetched traits against the effects of the commands sent before the fetch.
+   */
+  private reconcile(traits: Traits, requestedAt: number): Traits {
+    if (!this.pending) {
+      return traits;
+    }
+
+    if (requestedAt < this.pending.since) {
+      // the response may predate the last command, keep showing what we wrote
+      return mergeTraits(traits, this.pending.traits);
+    }
+
+    const diffs = diffTraits(traits, this.pending.traits);
+    if (diffs.length > 0) {
+      this.log.warn(this.accessory.displayName, 'did not apply the last command as sent,', diffs.join(', '));
+    }
+    this.pending = undefined;
+    return traits;
+  }
+
+  /**
+   * Snaps setpoints to the precision of the display unit and moves the other bound of a range to keep Nest's
+   * minimum gap, setpoints outside of the range the thermostat accepts are rejected.
+   */
+  private normalizeSetpoints(command: string, params: CommandParams): CommandParams {
+    if (!command.startsWith('sdm.devices.commands.ThermostatTemperatureSetpoint.')) {
+      return params;
+    }
+
+    const traits = this.cache.getTraits();
+    const unit = traits?.displayUnit ?? 'CELSIUS';
+    const { min, max } = setpointRange(unit, this.options.setpointLimits);
+    const normalized = { ...params };
+
+    for (const key of ['heatCelsius', 'coolCelsius']) {
+      if (!(key in normalized)) {
+        continue;
+      }
+      const value = normalized[key];
+      // allow for the rounding of HomeKit's conversions from Fahrenheit
+      if (typeof value !== 'number' || !(value >= min - 0.1 && value <= max + 0.1)) {
+        this.log.error(`${this.accessory.displayName} accepts setpoints from ${min.toFixed(1)} to ${max.toFixed(1)} °C,`,
+          `${key} ${value} rejected.`);
+        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.INVALID_VALUE_IN_REQUEST);
+      }
+      normalized[key] = roundSetpoint(Math.min(max, Math.max(min, value)), unit);
+    }
+
+    let heat = normalized.heatCelsius as number;
+    let cool = normalized.coolCelsius as number;
+    const gap = minimumSetpointGap(unit);
+    if (command.endsWith('.SetRange') && cool - heat < gap - 0.01) {
+      // keep the bound which was changed, unless that pushes the other one out of range
+      if (Math.abs(heat - (traits?.temperatureSetpoint?.heatCelsius ?? heat)) >= 0.01) {
+        cool = Math.min(max, heat + gap);
+        heat = cool - gap;
+      } else {
+        heat = Math.max(min, cool - gap);
+        cool = heat + gap;
+      }
+      this.log.info(`${this.accessory.displayName} keeps heat and cool setpoints ${gap.toFixed(1)} °C apart, adjusted the range to`,
+        `${heat.toFixed(1)} - ${cool.toFixed(1)} °C.`);
+      normalized.heatCelsius = heat;
+      normalized.coolCelsius = cool;
+    }
+
+    return normalized;
+  }
+
+  async executeCommand(command: string, rawParams: CommandParams) {
+    const params = this.normalizeSetpoints(command, rawParams);
+    const result = await this.commands.run(command, params);
 
-    if (res.status !== 200) {
-      this.log.error('handleTargetHeatingCoolingStateSet failed, response:', JSON.stringify(res));
+    const expected = commandToTraits(command, params);
+    if (expected && this.rawTraits) {
+      this.pending = {
+        traits: mergeTraits(this.pending?.traits, expected),
+        since: Date.now(),
+      };
+      this.save(mergeTraits(this.rawTraits, expected));
+      if (command === 'sdm.devices.commands.ThermostatMode.SetMode') {
+        // the thermostat switches to the setpoints it keeps for the new mode, which only a fetch tells
+        this.cache.markIncomplete();
+      }
     }
+
+    return result;
   }
 
 }
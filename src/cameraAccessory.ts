@@ -0,0 +1,248 @@
+import { PlatformAccessory, Logging, Resolution, Service, WithUUID } from 'homebridge';
+import { GoogleNestPlatform } from './platform';
+import { GoogleNestCameraStreamingDelegate } from './cameraStreaming';
+import { GoogleNestDeviceEvent, GoogleNestEventHandler } from './events';
+import { seconds } from './api';
+import { Device } from './client';
+import { GoogleNestAccount } from './account';
+import { deviceInfo, setAccessoryInformation } from './info';
+import { GoogleNestHttpDevice, GoogleNestHttpHandler } from './server';
+import { isWebRtcAvailable } from './liveStream';
+import { GoogleNestDeviceStoreHandler } from './store';
+
+const resolutions: Resolution[] = [
+  [1920, 1080, 30],
+  [1280, 720, 30],
+  [640, 480, 30],
+  [640, 360, 30],
+  [480, 270, 30],
+  [320, 240, 15],
+  [320, 180, 15],
+];
+
+/**
+ * A HomeKit sensor toggled by device events, reset after a quiet period.
+ */
+type EventSensor = {
+  service: Service;
+  detected: (value: boolean) => void;
+  resetTimer?: NodeJS.Timeout;
+};
+
+/**
+ * Platform Accessory
+ * Handler for Nest cameras, doorbells and displays with a camera.
+ */
+export class GoogleNestCameraHandler implements GoogleNestEventHandler, GoogleNestHttpHandler, GoogleNestDeviceStoreHandler {
+  private log: Logging = this.account.log;
+  private hap = this.platform.api.hap;
+  private C = this.platform.Characteristic;
+
+  private doorbellService?: Service;
+  private sensors = new Map<string, EventSensor>();
+  private resetInterval = seconds(this.platform.config.eventResetInterval ?? 30);
+
+  // events are delivered at least once and repeated for every update of an event thread
+  private seenEvents: string[] = [];
+  private maxSeenEvents = 100;
+  private maxEventAge = seconds(60);
+
+  // as last listed, camera traits describe capabilities rather than state
+  private traits: Device['traits'];
+  // whether the device was listed by the last refresh or sent an event since, most cameras report no connectivity
+  private reachable = true;
+
+  constructor(
+    private readonly platform: GoogleNestPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly account: GoogleNestAccount,
+    device: Device,
+  ) {
+    // earlier versions registered every device as a thermostat, drop those services from cached accessories
+    for (const service of [this.accessory.getService(this.platform.Service.Thermostat), this.accessory.getService('Eco Mode')]) {
+      if (service) {
+        this.accessory.removeService(service);
+      }
+    }
+
+    setAccessoryInformation(this.accessory, this.platform.Service, this.platform.Characteristic, deviceInfo(device));
+    this.traits = device.traits;
+    this.account.store.register(this.accessory.context.name, this);
+    this.platform.httpApi?.register(this.accessory.context.name, this);
+
+    this.setupEventServices(device);
+    if (this.account.events) {
+      this.account.events.subscribe(this.accessory.context.name, this);
+    } else {
+      this.log.warn('No Pub/Sub subscription configured, doorbell and motion events of', this.accessory.displayName, 'are not available.');
+    }
+
+    // RTSP needs no WebRTC stack and is preferred by cameras supporting both
+    const protocols: string[] = device.traits?.['sdm.devices.traits.CameraLiveStream']?.supportedProtocols ?? [];
+    const protocol = protocols.includes('RTSP') ? 'RTSP' : protocols.includes('WEB_RTC') ? 'WEB_RTC' : undefined;
+    if (!protocol) {
+      this.log.warn('Live stream of', this.accessory.displayName, 'is not available, the device offers no RTSP or WebRTC stream.');
+      return;
+    }
+    if (protocol === 'WEB_RTC' && !isWebRtcAvailable()) {
+      this.log.warn('Live stream and snapshots of', this.accessory.displayName, 'are not available, WebRTC streams need the',
+        'optional werift package, which requires Node.js 16 or later.');
+      return;
+    }
+
+    this.accessory.configureController(new this.hap.CameraController({
+      cameraStreamCount: 2,
+      delegate: new GoogleNestCameraStreamingDelegate(this.platform, this.accessory, this.account, protocol),
+      streamingOptions: {
+        supportedCryptoSuites: [this.hap.SRTPCryptoSuites.AES_CM_128_HMAC_SHA1_80],
+        video: {
+          resolutions,
+          codec: {
+            profiles: [this.hap.H264Profile.BASELINE, this.hap.H264Profile.MAIN, this.hap.H264Profile.HIGH],
+            levels: [this.hap.H264Level.LEVEL3_1, this.hap.H264Level.LEVEL3_2, this.hap.H264Level.LEVEL4_0],
+          },
+        },
+      },
+    }));
+  }
+
+  /**
+   * Stops handling device events, called once the accessory is removed or Homebridge shuts down.
+   */
+  dispose() {
+    this.account.events?.unsubscribe(this.accessory.context.name);
+    this.account.store.unregister(this.accessory.context.name);
+    this.platform.httpApi?.unregister(this.accessory.context.name);
+    for (const sensor of this.sensors.values()) {
+      if (sensor.resetTimer) {
+        clearTimeout(sensor.resetTimer);
+        sensor.resetTimer = undefined;
+      }
+    }
+  }
+
+  describe(): GoogleNestHttpDevice {
+    return {
+      id: this.accessory.context.name.split('/').pop(),
+      name: this.accessory.context.name,
+      displayName: this.accessory.displayName,
+      info: this.accessory.context.info,
+      online: this.reachable && this.traits?.['sdm.devices.traits.Connectivity']?.status !== 'OFFLINE',
+      traits: this.traits,
+    };
+  }
+
+  onDevice(device: Device) {
+    this.traits = device.traits;
+    this.reachable = true;
+  }
+
+  onRefreshFailed() {
+    this.reachable = false;
+  }
+
+  /**
+   * Adds (or removes from cached accessories) the services matching the event traits of the device.
+   */
+  private setupEventServices(device: Device) {
+    const traits = device.traits ?? {};
+
+    const setupService = (enabled: boolean, type: WithUUID<typeof Service>, name: string, subtype: string) => {
+      const existing = this.accessory.getServiceById(type, subtype);
+      if (!enabled) {
+        if (existing) {
+          this.accessory.removeService(existing);
+        }
+        return undefined;
+      }
+      return existing || this.accessory.addService(type, name, subtype);
+    };
+
+    this.doorbellService = setupService(
+      'sdm.devices.traits.DoorbellChime' in traits, this.platform.Service.Doorbell, 'Doorbell', 'doorbell');
+    this.doorbellService?.getCharacteristic(this.C.ProgrammableSwitchEvent)
+      .onGet(() => null);
+
+    const motion = setupService(
+      'sdm.devices.traits.CameraMotion' in traits, this.platform.Service.MotionSensor, 'Motion', 'motion');
+    if (motion) {
+      this.sensors.set('sdm.devices.events.CameraMotion.Motion', {
+        service: motion,
+        detected: value => motion.updateCharacteristic(this.C.MotionDetected, value),
+      });
+    }
+
+    const person = setupService(
+      'sdm.devices.traits.CameraPerson' in traits, this.platform.Service.OccupancySensor, 'Person', 'person');
+    if (person) {
+      this.sensors.set('sdm.devices.events.CameraPerson.Person', {
+        service: person,
+        detected: value => person.updateCharacteristic(this.C.OccupancyDetected, value ?
+          this.C.OccupancyDetected.OCCUPANCY_DETECTED : this.C.OccupancyDetected.OCCUPANCY_NOT_DETECTED),
+      });
+    }
+
+    const sound = setupService(
+      'sdm.devices.traits.CameraSound' in traits, this.platform.Service.MotionSensor, 'Sound', 'sound');
+    if (sound) {
+      this.sensors.set('sdm.devices.events.CameraSound.Sound', {
+        service: sound,
+        detected: value => sound.updateCharacteristic(this.C.MotionDetected, value),
+      });
+    }
+
+    for (const sensor of this.sensors.values()) {
+      sensor.detected(false);
+    }
+  }
+
+  /**
+   * Returns true if the event was handled before, all updates of an event thread share the thread id.
+   */
+  private isDuplicate(event: GoogleNestDeviceEvent) {
+    const key = event.type + ':' + (event.eventThreadId || event.eventId || event.eventSessionId);
+    if (this.seenEvents.includes(key)) {
+      return true;
+    }
+
+    this.seenEvents.push(key);
+    if (this.seenEvents.length > this.maxSeenEvents) {
+      this.seenEvents.shift();
+    }
+    return false;
+  }
+
+  onDeviceEvent(event: GoogleNestDeviceEvent) {
+    this.reachable = true;
+    if (this.isDuplicate(event)) {
+      this.log.debug('Ignored duplicate event', event.type, 'for', this.accessory.displayName);
+      return;
+    }
+
+    if (event.timestamp && Date.now() - Date.parse(event.timestamp) > this.maxEventAge) {
+      this.log.debug('Ignored stale event', event.type, 'from', event.timestamp, 'for', this.accessory.displayName);
+      return;
+    }
+
+    if (event.type === 'sdm.devices.events.DoorbellChime.Chime') {
+      this.log.info('Doorbell', this.accessory.displayName, 'pressed.');
+      this.doorbellService?.updateCharacteristic(this.C.ProgrammableSwitchEvent, this.C.ProgrammableSwitchEvent.SINGLE_PRESS);
+      return;
+    }
+
+    const sensor = this.sensors.get(event.type);
+    if (!sensor) {
+      return;
+    }
+
+    this.log.debug('Triggered', sensor.service.displayName, 'of', this.accessory.displayName);
+    sensor.detected(true);
+    if (sensor.resetTimer) {
+      clearTimeout(sensor.resetTimer);
+    }
+    sensor.resetTimer = setTimeout(() => {
+      sensor.resetTimer = undefined;
+      sensor.detected(false);
+    }, this.resetInterval);
+  }
+}
@@ -0,0 +1,262 @@
+import {
+  CameraStreamingDelegate,
+  Logging,
+  PlatformAccessory,
+  PrepareStreamCallback,
+  PrepareStreamRequest,
+  SnapshotRequest,
+  SnapshotRequestCallback,
+  StreamingRequest,
+  StreamRequestCallback,
+  VideoInfo,
+} from 'homebridge';
+import { CommandParams } from './client';
+import { GoogleNestAccount } from './account';
+import { ChildProcess, spawn } from 'child_process';
+import { GoogleNestPlatform } from './platform';
+import { seconds } from './api';
+import { generateLiveStream, GoogleNestLiveStream, GoogleNestStreamProtocol } from './liveStream';
+
+type StreamSession = {
+  address: string;
+  videoPort: number;
+  videoSRTP: Buffer;
+  videoSSRC: number;
+  stream?: GoogleNestLiveStream;
+  process?: ChildProcess;
+  extendTimer?: NodeJS.Timeout;
+  stopped?: boolean;
+};
+
+// end of image marker, ffmpeg writes the frames of a running stream one JPEG after the other
+const jpegEnd = Buffer.from([0xff, 0xd9]);
+
+/**
+ * Streams the live stream of a Nest camera to HomeKit by transcoding it with ffmpeg, snapshots are taken from a
+ * live stream as well. A snapshot is served for a while, and taken from the running stream while one is watched.
+ */
+export class GoogleNestCameraStreamingDelegate implements CameraStreamingDelegate {
+  private log: Logging = this.account.log;
+  private hap = this.platform.api.hap;
+  private ffmpegPath: string = this.platform.config.ffmpegPath || 'ffmpeg';
+
+  private pendingSessions = new Map<string, StreamSession>();
+  private ongoingSessions = new Map<string, StreamSession>();
+
+  // streams expire after five minutes unless extended
+  private extendInterval = seconds(4 * 60);
+  // bounds generating the stream and waiting for its first frame, a WebRTC stream may never connect
+  private snapshotTimeout = seconds(10);
+  private snapshotCacheTtl = seconds(this.platform.intervals.snapshotCacheTtl);
+  // how often a running stream session refreshes the snapshot
+  private snapshotInterval = seconds(5);
+
+  private lastSnapshot?: { image: Buffer; takenAt: number };
+  // shared by the snapshot requests arriving while it is taken
+  private pendingSnapshot?: Promise<Buffer>;
+
+  constructor(
+    private readonly platform: GoogleNestPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly account: GoogleNestAccount,
+    private readonly protocol: GoogleNestStreamProtocol,
+  ) {}
+
+  private executeCommand(command: string, params: CommandParams) {
+    return this.account.client.executeCommand(this.accessory.context.name, command, params);
+  }
+
+  private generateStream() {
+    return generateLiveStream(this.protocol, this.log, (command, params) => this.executeCommand(command, params));
+  }
+
+  private stopStream(stream: GoogleNestLiveStream) {
+    stream.stop().catch(e => this.log.debug('Stopping the stream failed:', (e as Error).message));
+  }
+
+  handleSnapshotRequest(request: SnapshotRequest, callback: SnapshotRequestCallback) {
+    this.snapshot(request).then(image => callback(undefined, image), e => {
+      this.log.error('Snapshot of', this.accessory.displayName, 'failed:', (e as Error).message);
+      callback(e as Error);
+    });
+  }
+
+  private async snapshot(request: SnapshotRequest): Promise<Buffer> {
+    if (this.lastSnapshot && Date.now() - this.lastSnapshot.takenAt < this.snapshotCacheTtl) {
+      return this.lastSnapshot.image;
+    }
+    if (!this.pendingSnapshot) {
+      this.pendingSnapshot = this.takeSnapshot(request).then(image => {
+        this.lastSnapshot = { image, takenAt: Date.now() };
+        return image;
+      }).finally(() => this.pendingSnapshot = undefined);
+    }
+    return this.pendingSnapshot;
+  }
+
+  private async takeSnapshot(request: SnapshotRequest): Promise<Buffer> {
+    const deadline = Date.now() + this.snapshotTimeout;
+    const generating = this.generateStream();
+    let stream: GoogleNestLiveStream;
+    try {
+      stream = await new Promise<GoogleNestLiveStream>((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error('the stream was not generated in time')), this.snapshotTimeout);
+        generating.then(resolve, reject).finally(() => clearTimeout(timer));
+      });
+    } catch (e) {
+      // a stream generated too late must not keep running
+      generating.then(late => this.stopStream(late), () => undefined);
+      throw e;
+    }
+
+    try {
+      return await new Promise<Buffer>((resolve, reject) => {
+        const ffmpeg = spawn(this.ffmpegPath, [
+          ...stream.input,
+          '-frames:v', '1',
+          '-filter:v', `scale=${request.width}:${request.height}`,
+          '-f', 'image2',
+          '-',
+        ], { env: process.env });
+
+        ffmpeg.stdin.end(stream.stdin);
+
+        const timer = setTimeout(() => ffmpeg.kill('SIGKILL'), Math.max(deadline - Date.now(), 0));
+        const chunks: Buffer[] = [];
+        ffmpeg.stdout.on('data', (data: Buffer) => chunks.push(data));
+        ffmpeg.on('error', reject);
+        ffmpeg.on('exit', (code, signal) => {
+          clearTimeout(timer);
+          if (code === 0 && chunks.length > 0) {
+            resolve(Buffer.concat(chunks));
+          } else {
+            reject(new Error(signal === 'SIGKILL' ? 'no frame received in time' : 'ffmpeg exited with code ' + code));
+          }
+        });
+      });
+    } finally {
+      this.stopStream(stream);
+    }
+  }
+
+  prepareStream(request: PrepareStreamRequest, callback: PrepareStreamCallback) {
+    const videoSSRC = this.hap.CameraController.generateSynchronisationSource();
+
+    this.pendingSessions.set(request.sessionID, {
+      address: request.targetAddress,
+      videoPort: request.video.port,
+      videoSRTP: Buffer.concat([request.video.srtp_key, request.video.srtp_salt]),
+      videoSSRC,
+    });
+
+    callback(undefined, {
+      video: {
+        port: request.video.port,
+        ssrc: videoSSRC,
+        srtp_key: request.video.srtp_key,
+        srtp_salt: request.video.srtp_salt,
+      },
+    });
+  }
+
+  handleStreamRequest(request: StreamingRequest, callback: StreamRequestCallback) {
+    switch (request.type) {
+      case this.hap.StreamRequestTypes.START: {
+        const session = this.pendingSessions.get(request.sessionID);
+        if (!session) {
+          callback(new Error('Unknown stream session ' + request.sessionID));
+          return;
+        }
+        this.pendingSessions.delete(request.sessionID);
+        this.ongoingSessions.set(request.sessionID, session);
+
+        this.startSession(session, request.video).then(() => callback(), e => {
+          this.log.error('Starting stream of', this.accessory.displayName, 'failed:', (e as Error).message);
+          this.stopSession(request.sessionID);
+          callback(e as Error);
+        });
+        return;
+      }
+      case this.hap.StreamRequestTypes.RECONFIGURE:
+        // ffmpeg can't be reconfigured on the fly, keep the current stream parameters
+        callback();
+        return;
+      case this.hap.StreamRequestTypes.STOP:
+        this.stopSession(request.sessionID);
+        callback();
+        return;
+    }
+  }
+
+  private async startSession(session: StreamSession, video: VideoInfo) {
+    session.stream = await this.generateStream();
+    if (session.stopped) {
+      // HomeKit gave up on the session while the stream was being generated
+      this.stopStream(session.stream);
+      return;
+    }
+    this.log.debug('Streaming', this.accessory.displayName, 'to', session.address);
+
+    session.process = spawn(this.ffmpegPath, [
+      ...session.stream.input,
+      '-an', '-sn', '-dn',
+      '-codec:v', 'libx264',
+      '-pix_fmt', 'yuv420p',
+      '-color_range', 'mpeg',
+      '-preset', 'ultrafast',
+      '-tune', 'zerolatency',
+      '-filter:v', `scale=${video.width}:${video.height}`,
+      '-r', String(video.fps),
+      '-b:v', `${video.max_bit_rate}k`,
+      '-payload_type', String(video.pt),
+      '-ssrc', String(session.videoSSRC),
+      '-f', 'rtp',
+      '-srtp_out_suite', 'AES_CM_128_HMAC_SHA1_80',
+      '-srtp_out_params', session.videoSRTP.toString('base64'),
+      `srtp://${session.address}:${session.videoPort}?rtcpport=${session.videoPort}&pkt_size=${video.mtu}`,
+      // the frames served as snapshots while the stream runs
+      '-an', '-sn', '-dn',
+      '-filter:v', `fps=${1000 / this.snapshotInterval}`,
+      '-codec:v', 'mjpeg',
+      '-f', 'image2pipe',
+      'pipe:1',
+    ], { env: process.env });
+
+    let frame = Buffer.alloc(0);
+    session.process.stdout?.on('data', (data: Buffer) => {
+      frame = Buffer.concat([frame, data]);
+      let end: number;
+      while ((end = frame.indexOf(jpegEnd)) !== -1) {
+        this.lastSnapshot = { image: frame.subarray(0, end + jpegEnd.length), takenAt: Date.now() };
+        frame = frame.subarray(end + jpegEnd.length);
+      }
+    });
+
+    session.process.stdin?.end(session.stream.stdin);
+    session.process.on('error', e => this.log.error('ffmpeg failed:', e.message));
+    session.process.stderr?.on('data', (data: Buffer) => this.log.debug(data.toString()));
+
+    session.extendTimer = setInterval(() => {
+      if (session.stream) {
+        session.stream.extend().catch(e => this.log.error('Extending stream failed:', (e as Error).message));
+      }
+    }, this.extendInterval);
+  }
+
+  private stopSession(sessionID: string) {
+    const session = this.ongoingSessions.get(sessionID);
+    if (!session) {
+      return;
+    }
+    this.ongoingSessions.delete(sessionID);
+    session.stopped = true;
+
+    if (session.extendTimer) {
+      clearInterval(session.extendTimer);
+    }
+    session.process?.kill('SIGKILL');
+    if (session.stream) {
+      this.stopStream(session.stream);
+    }
+  }
+}
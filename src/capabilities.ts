@@ -0,0 +1,28 @@
+import { Device } from './client';
+
+/**
+ * What a thermostat supports, derived from the traits it reports, so that only the matching services and
+ * characteristics are exposed.
+ */
+export type GoogleNestThermostatCapabilities = {
+  modes: ('HEAT' | 'COOL' | 'HEATCOOL' | 'OFF')[];
+  // HEATCOOL mode, holding both a heat and a cool setpoint
+  range: boolean;
+  eco: boolean;
+  humidity: boolean;
+  fan: boolean;
+};
+
+export const thermostatCapabilities = (device: Device): GoogleNestThermostatCapabilities => {
+  const traits = device.traits ?? {};
+  const available: string[] = traits['sdm.devices.traits.ThermostatMode']?.availableModes ?? ['HEAT', 'COOL', 'HEATCOOL', 'OFF'];
+  const modes = (['HEAT', 'COOL', 'HEATCOOL', 'OFF'] as const).filter(mode => available.includes(mode));
+
+  return {
+    modes,
+    range: modes.includes('HEATCOOL'),
+    eco: 'sdm.devices.traits.ThermostatEco' in traits,
+    humidity: 'sdm.devices.traits.Humidity' in traits,
+    fan: 'sdm.devices.traits.Fan' in traits,
+  };
+};
@@ -1,9 +1,10 @@
 /**
  * Internal data representation for device traits.
  */
-type DeviceTraits = {
+export type DeviceTraits = {
   connectivity?: 'OFFLINE' | 'ONLINE';
   ecoMode?: 'MANUAL_ECO' | 'OFF';
+  ecoTemperatureSetpoint?: { 'heatCelsius'?: number; 'coolCelsius'?: number };
   currentTemperature?: number;
   hvacStatus?: 'COOLING' | 'HEATING' | 'OFF';
   targetMode?: 'HEAT' | 'COOL' | 'HEATCOOL' | 'OFF';
@@ -11,6 +12,8 @@ type DeviceTraits = {
   displayUnit?: 'FAHRENHEIT' | 'CELSIUS';
   temperatureSetpoint?: { 'heatCelsius'?: number; 'coolCelsius'?: number };
   relativeHumidity?: number;
+  fanTimerMode?: 'ON' | 'OFF';
+  fanTimerTimeout?: string;
 };
 
 /**
@@ -22,8 +25,16 @@ export class GoogleNestThermostatCharacteristics {
     private readonly error: (msg: string) => never,
   ) {}
 
+  /**
+   * Returns the traits as reported, missing values included.
+   */
+  getRawTraits(): Readonly<DeviceTraits> {
+    return this.traits;
+  }
+
   private get(name: string) {
-    if (!this.traits[name]) {
+    // 0 is a valid temperature or humidity, only absent values are errors
+    if (this.traits[name] === undefined || this.traits[name] === null) {
       this.error('GET ' + name + ' failed, state: ' + JSON.stringify(this.traits));
     }
 
@@ -34,6 +45,13 @@ export class GoogleNestThermostatCharacteristics {
     return this.get('ecoMode');
   }
 
+  /**
+   * Returns true while eco mode is on, thermostats without the eco trait are never in eco mode.
+   */
+  isEcoActive(): boolean {
+    return this.traits.ecoMode === 'MANUAL_ECO';
+  }
+
   getCurrentTemperature(): number {
     return this.get('currentTemperature');
   }
@@ -58,7 +76,29 @@ export class GoogleNestThermostatCharacteristics {
     return this.get('temperatureSetpoint');
   }
 
+  getEcoTemperatureSetpoint(): { 'heatCelsius'?: number; 'coolCelsius'?: number } {
+    return this.get('ecoTemperatureSetpoint');
+  }
+
+  /**
+   * Returns the setpoints the thermostat currently holds to, the eco range while eco mode is on.
+   */
+  getActiveTemperatureSetpoint(): { 'heatCelsius'?: number; 'coolCelsius'?: number } {
+    return this.isEcoActive() ? this.getEcoTemperatureSetpoint() : this.getTemperatureSetpoint();
+  }
+
   getRelativeHumidity(): number {
     return this.get('relativeHumidity');
   }
-}
\ No newline at end of file
+
+  getFanTimerMode(): 'ON' | 'OFF' {
+    return this.get('fanTimerMode');
+  }
+
+  /**
+   * Returns the time the fan timer runs out, only set while the fan timer is on.
+   */
+  getFanTimerTimeout(): string | undefined {
+    return this.traits.fanTimerTimeout;
+  }
+}
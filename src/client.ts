@@ -0,0 +1,78 @@
+import { smartdevicemanagement_v1 } from 'googleapis';
+
+export type Device = smartdevicemanagement_v1.Schema$GoogleHomeEnterpriseSdmV1Device;
+export type CommandParams = { [key: string]: unknown };
+export type CommandResults = NonNullable<smartdevicemanagement_v1.Schema$GoogleHomeEnterpriseSdmV1ExecuteDeviceCommandResponse['results']>;
+
+/**
+ * The subset of the Smart Device Management API the plugin uses.
+ *
+ * Failed requests reject with errors shaped like the ones of gaxios: the HTTP status and the
+ * SDM error body are found under `response`, network errors have no `response`.
+ */
+export interface GoogleNestClient {
+  listDevices(parent: string, pageToken?: string): Promise<{ devices: Device[]; nextPageToken?: string }>;
+  getDevice(name: string): Promise<Device>;
+  executeCommand(name: string, command: string, params: CommandParams): Promise<CommandResults>;
+}
+
+/**
+ * Error rejected by {@link GoogleNestClient} implementations other than the googleapis one.
+ */
+export class GoogleNestClientError extends Error {
+  readonly response: {
+    status: number;
+    headers: { [name: string]: string };
+    data: { error: { code: number; status: string; message: string } };
+  };
+
+  constructor(status: number, code: string, message: string, headers: { [name: string]: string } = {}) {
+    super(message);
+    this.response = {
+      status,
+      headers,
+      data: { error: { code: status, status: code, message } },
+    };
+  }
+}
+
+/**
+ * {@link GoogleNestClient} backed by googleapis.
+ */
+export class GoogleNestApiClient implements GoogleNestClient {
+  constructor(
+    private readonly sdm: smartdevicemanagement_v1.Smartdevicemanagement,
+  ) {}
+
+  async listDevices(parent: string, pageToken?: string) {
+    const res = await this.sdm.enterprises.devices.list({
+      parent,
+      pageToken,
+    });
+
+    return {
+      devices: res.data.devices ?? [],
+      nextPageToken: res.data.nextPageToken ?? undefined,
+    };
+  }
+
+  async getDevice(name: string) {
+    const res = await this.sdm.enterprises.devices.get({
+      name,
+    });
+
+    return res.data;
+  }
+
+  async executeCommand(name: string, command: string, params: CommandParams) {
+    const res = await this.sdm.enterprises.devices.executeCommand({
+      name,
+      requestBody: {
+        command,
+        params,
+      },
+    });
+
+    return res.data.results ?? {};
+  }
+}
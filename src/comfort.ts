@@ -0,0 +1,185 @@
+import { API, Logging, PlatformAccessory } from 'homebridge';
+import { GoogleNestThermostatApi, seconds } from './api';
+import { GoogleNestThermostatCharacteristics } from './characteristics';
+import { GoogleNestComfortConfig, GoogleNestComfortRule } from './config';
+import { roundSetpointChange } from './setpoints';
+import { CommandParams } from './client';
+
+/**
+ * State kept in the accessory context, so that an offset applied before a restart or a crash can be taken back.
+ */
+type StoredComfort = {
+  enabled: boolean;
+  // offset currently added to the setpoints, in degrees Celsius
+  offset: number;
+};
+
+/**
+ * Shifts the setpoints of a thermostat while the indoor humidity crosses the thresholds of the configured rules:
+ * humid air feels warmer and dry air cooler than it is. A rule applies once the humidity reaches its threshold
+ * and stops once it is back by more than the hysteresis, the first applying rule sets the offset. Setpoints are
+ * adjusted at most once per interval, not at all in eco mode or while the thermostat is off.
+ */
+export class GoogleNestComfort {
+  private active = new Set<GoogleNestComfortRule>();
+  private lastAdjustment = 0;
+  private timer?: NodeJS.Timeout;
+  private characteristics?: GoogleNestThermostatCharacteristics;
+  private adjusting = false;
+
+  private stored: StoredComfort = { enabled: true, offset: 0, ...this.accessory.context.comfort };
+
+  constructor(
+    private readonly log: Logging,
+    private readonly homebridge: API,
+    private readonly accessory: PlatformAccessory,
+    private readonly api: GoogleNestThermostatApi,
+    private readonly config: GoogleNestComfortConfig,
+  ) {}
+
+  /**
+   * Removes the stored state, used when the controller is turned off.
+   */
+  static clear(accessory: PlatformAccessory) {
+    delete accessory.context.comfort;
+  }
+
+  isEnabled() {
+    return this.stored.enabled;
+  }
+
+  /**
+   * Returns the offset currently added to the setpoints, in degrees Celsius.
+   */
+  getOffset() {
+    return this.stored.offset;
+  }
+
+  /**
+   * Turns the controller on or off, turning it off takes back the offset applied so far.
+   */
+  setEnabled(enabled: boolean) {
+    this.log.info('Comfort control of', this.accessory.displayName, enabled ? 'enabled' : 'disabled');
+    this.save({ ...this.stored, enabled });
+    this.evaluate(!enabled);
+  }
+
+  onCharacteristics(characteristics: GoogleNestThermostatCharacteristics) {
+    this.characteristics = characteristics;
+    this.evaluate();
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+  }
+
+  private humidityOf(characteristics: GoogleNestThermostatCharacteristics) {
+    return characteristics.getRawTraits().relativeHumidity;
+  }
+
+  private updateRules(humidity: number) {
+    for (const rule of this.config.rules) {
+      const wasActive = this.active.has(rule);
+      const above = rule.humidityAbove === undefined
+        || humidity >= rule.humidityAbove - (wasActive ? this.config.hysteresis : 0);
+      const below = rule.humidityBelow === undefined
+        || humidity <= rule.humidityBelow + (wasActive ? this.config.hysteresis : 0);
+      if (above && below) {
+        this.active.add(rule);
+      } else {
+        this.active.delete(rule);
+      }
+    }
+  }
+
+  /**
+   * Applies the offset of the first active rule, or takes back the offset once disabled.
+   */
+  private evaluate(immediately = false) {
+    const humidity = this.characteristics && this.humidityOf(this.characteristics);
+    if (humidity === undefined || this.adjusting) {
+      return;
+    }
+
+    this.updateRules(humidity);
+    const rule = this.config.rules.find(rule => this.active.has(rule));
+    const traits = this.characteristics!.getRawTraits();
+    // setpoints are rounded to the display unit, an offset off its steps could not be taken back exactly
+    const offset = roundSetpointChange(this.stored.enabled ? rule?.offsetCelsius ?? 0 : 0, traits.displayUnit ?? 'CELSIUS');
+    if (Math.abs(offset - this.stored.offset) < 0.01) {
+      return;
+    }
+
+    // setpoints can't be changed in eco mode, the offset is applied once the thermostat holds setpoints again
+    if (traits.ecoMode === 'MANUAL_ECO' || traits.targetMode === 'OFF') {
+      return;
+    }
+
+    const wait = this.lastAdjustment + seconds(this.config.minInterval) - Date.now();
+    if (wait > 0 && !immediately) {
+      if (!this.timer) {
+        this.timer = setTimeout(() => {
+          this.timer = undefined;
+          this.evaluate();
+        }, wait);
+      }
+      return;
+    }
+
+    this.log.info(`Humidity of ${this.accessory.displayName} is ${humidity}%, offsetting its setpoints by ${offset.toFixed(1)} °C.`);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+    this.adjust(offset).catch(e => this.log.error('Comfort adjustment of', this.accessory.displayName, 'failed:',
+      (e as Error).message));
+  }
+
+  /**
+   * Moves the setpoints of the current mode from the previous offset to the new one.
+   */
+  private async adjust(offset: number) {
+    this.adjusting = true;
+    this.lastAdjustment = Date.now();
+    try {
+      const traits = (await this.api.fetch()).getRawTraits();
+      const setpoint = traits.temperatureSetpoint ?? {};
+      const previous = this.stored.offset;
+      const delta = offset - previous;
+
+      let command: [string, CommandParams];
+      if (traits.targetMode === 'HEAT' && setpoint.heatCelsius !== undefined) {
+        command = ['sdm.devices.commands.ThermostatTemperatureSetpoint.SetHeat', { heatCelsius: setpoint.heatCelsius + delta }];
+      } else if (traits.targetMode === 'COOL' && setpoint.coolCelsius !== undefined) {
+        command = ['sdm.devices.commands.ThermostatTemperatureSetpoint.SetCool', { coolCelsius: setpoint.coolCelsius + delta }];
+      } else if (traits.targetMode === 'HEATCOOL' && setpoint.heatCelsius !== undefined && setpoint.coolCelsius !== undefined) {
+        command = ['sdm.devices.commands.ThermostatTemperatureSetpoint.SetRange', {
+          heatCelsius: setpoint.heatCelsius + delta,
+          coolCelsius: setpoint.coolCelsius + delta,
+        }];
+      } else {
+        return;
+      }
+
+      // the new setpoints are pushed to the presets while the command completes, they must see the new offset
+      this.save({ ...this.stored, offset });
+      try {
+        await this.api.executeCommand(...command);
+      } catch (e) {
+        this.save({ ...this.stored, offset: previous });
+        throw e;
+      }
+    } finally {
+      this.adjusting = false;
+    }
+  }
+
+  private save(stored: StoredComfort) {
+    this.stored = stored;
+    this.accessory.context.comfort = stored;
+    // Homebridge only writes the cached accessories on request or when shutting down
+    this.homebridge.updatePlatformAccessories([this.accessory]);
+  }
+}
@@ -0,0 +1,148 @@
+import { API, HAPStatus, Logging } from 'homebridge';
+import { seconds } from './api';
+import { CommandParams, CommandResults } from './client';
+
+type Executor = (command: string, params: CommandParams) => Promise<CommandResults>;
+
+type QueuedCommand = {
+  command: string;
+  params: CommandParams;
+  waiters: { resolve: (result: CommandResults) => void; reject: (e: Error) => void }[];
+};
+
+/**
+ * Shape of the errors thrown by gaxios for failed requests.
+ */
+type RequestError = Error & {
+  response?: {
+    status?: number;
+    headers?: { [name: string]: string };
+    data?: { error?: { status?: string; message?: string } };
+  };
+};
+
+const sleep = (ms: number) => {
+  return new Promise(resolve => setTimeout(resolve, ms));
+};
+
+/**
+ * Executes the commands of a single device one at a time. Commands queued while another one is in flight
+ * collapse with the last queued command of the same name, so only the final value of a slider drag is sent.
+ * Transient failures are retried with exponential backoff, rate limit responses delay further commands.
+ */
+export class GoogleNestCommandQueue {
+  private queue: QueuedCommand[] = [];
+  private running = false;
+  private rateLimitedUntil = 0;
+
+  private maxAttempts = 3;
+  private backoff = seconds(0.5);
+  // HomeKit gives up on a write after a couple of seconds, don't wait longer than that for the rate limit
+  private maxRateLimitWait = seconds(5);
+
+  constructor(
+    private readonly log: Logging,
+    private readonly hap: API['hap'],
+    private readonly deviceName: string,
+    private readonly execute: Executor,
+  ) {}
+
+  run(command: string, params: CommandParams): Promise<CommandResults> {
+    return new Promise((resolve, reject) => {
+      const last = this.queue[this.queue.length - 1];
+      if (last?.command === command) {
+        this.log.debug('Superseding queued', command, 'for', this.deviceName);
+        last.params = params;
+        last.waiters.push({ resolve, reject });
+      } else {
+        this.queue.push({ command, params, waiters: [{ resolve, reject }] });
+      }
+
+      this.drain();
+    });
+  }
+
+  private async drain() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    try {
+      let next: QueuedCommand | undefined;
+      while ((next = this.queue.shift())) {
+        try {
+          const result = await this.executeWithRetries(next.command, next.params);
+          next.waiters.forEach(waiter => waiter.resolve(result));
+        } catch (e) {
+          next.waiters.forEach(waiter => waiter.reject(e as Error));
+        }
+      }
+    } finally {
+      this.running = false;
+    }
+  }
+
+  private async executeWithRetries(command: string, params: CommandParams): Promise<CommandResults> {
+    for (let attempt = 1; ; attempt++) {
+      const wait = this.rateLimitedUntil - Date.now();
+      if (wait > this.maxRateLimitWait) {
+        this.log.warn(command, 'for', this.deviceName, 'dropped, rate limited for another', Math.ceil(wait / 1000), 'seconds.');
+        throw new this.hap.HapStatusError(this.hap.HAPStatus.RESOURCE_BUSY);
+      } else if (wait > 0) {
+        await sleep(wait);
+      }
+
+      try {
+        return await this.execute(command, params);
+      } catch (e) {
+        const error = e as RequestError;
+        const status = error.response?.status;
+
+        if (status === 429) {
+          const retryAfter = Number(error.response?.headers?.['retry-after']);
+          this.rateLimitedUntil = Date.now() + (retryAfter > 0 ? seconds(retryAfter) : this.backoff * 2 ** attempt);
+        }
+
+        if (attempt < this.maxAttempts && this.isTransient(error)) {
+          const delay = this.backoff * 2 ** (attempt - 1);
+          this.log.debug(command, 'for', this.deviceName, 'failed, retrying in', delay, 'ms:', error.message);
+          await sleep(delay);
+          continue;
+        }
+
+        this.log.error(command, 'for', this.deviceName, 'failed:',
+          error.response?.data?.error?.message ?? error.message);
+        throw new this.hap.HapStatusError(this.toHapStatus(error));
+      }
+    }
+  }
+
+  private isTransient(error: RequestError) {
+    const status = error.response?.status;
+    // no response at all means a network error
+    return status === undefined || status === 429 || status >= 500;
+  }
+
+  private toHapStatus(error: RequestError): HAPStatus {
+    const status = error.response?.status;
+    if (status === undefined || status >= 500) {
+      return this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE;
+    }
+
+    switch (status) {
+      case 400:
+        return error.response?.data?.error?.status === 'FAILED_PRECONDITION' ?
+          this.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE : this.hap.HAPStatus.INVALID_VALUE_IN_REQUEST;
+      case 401:
+      case 403:
+        return this.hap.HAPStatus.INSUFFICIENT_PRIVILEGES;
+      case 404:
+        return this.hap.HAPStatus.RESOURCE_DOES_NOT_EXIST;
+      case 429:
+        return this.hap.HAPStatus.RESOURCE_BUSY;
+      default:
+        return this.hap.HAPStatus.SERVICE_COMMUNICATION_FAILURE;
+    }
+  }
+}
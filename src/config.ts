@@ -0,0 +1,462 @@
+import { PlatformConfig } from 'homebridge';
+
+/**
+ * Per-device options, matched by SDM device name (enterprises/.../devices/...) or the name of the device's room.
+ */
+export type GoogleNestDeviceOptions = {
+  id: string;
+  hidden?: boolean;
+  displayName?: string;
+  exposeEcoSwitch?: boolean;
+  exposeHumiditySensor?: boolean;
+  exposeTemperatureSensor?: boolean;
+  exposeOfflineSensor?: boolean;
+  setpointLimits?: { minCelsius?: number; maxCelsius?: number };
+  cacheTtl?: number;
+  schedule?: GoogleNestScheduleEntry[];
+};
+
+/**
+ * Thermostat settings applied together, exposed as a switch on every thermostat.
+ */
+export type GoogleNestPreset = {
+  name: string;
+  mode: 'HEAT' | 'COOL' | 'HEATCOOL' | 'OFF';
+  heatCelsius?: number;
+  coolCelsius?: number;
+  eco?: boolean;
+};
+
+/**
+ * Applies a preset at a time of day (HH:MM, local time), on the given days or every day.
+ */
+export type GoogleNestScheduleEntry = {
+  time: string;
+  preset: string;
+  days?: typeof weekdays[number][];
+};
+
+/**
+ * A Google account with its Device Access project, unnamed for the account configured at the top level.
+ */
+export type GoogleNestAccountConfig = {
+  name?: string;
+  projectId: string;
+  clientId: string;
+  clientSecret: string;
+  refreshToken?: string;
+  subscriptionId?: string;
+  oauthPort: number;
+  oauthHost: string;
+  pubsubEmulatorHost?: string;
+};
+
+/**
+ * Offset added to the setpoints while the indoor humidity is within the bounds, in percent.
+ */
+export type GoogleNestComfortRule = {
+  humidityAbove?: number;
+  humidityBelow?: number;
+  offsetCelsius: number;
+};
+
+/**
+ * Rules of the comfort controller, the hysteresis in percent and the minimum interval between adjustments in seconds.
+ */
+export type GoogleNestComfortConfig = {
+  rules: GoogleNestComfortRule[];
+  hysteresis: number;
+  minInterval: number;
+};
+
+/**
+ * Intervals of the platform in seconds.
+ */
+export type GoogleNestIntervals = {
+  discoveryInterval: number;
+  pollInterval: number;
+  cacheTtl: number;
+  snapshotCacheTtl: number;
+};
+
+export const weekdays = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] as const;
+
+const isNumber = (value: unknown): value is number => {
+  return typeof value === 'number' && isFinite(value);
+};
+
+// default and lowest accepted value of each interval, lower values would flood the SDM API with requests
+const intervalLimits: Record<keyof GoogleNestIntervals, { default: number; minimum: number }> = {
+  discoveryInterval: { default: 600, minimum: 60 },
+  pollInterval: { default: 60, minimum: 10 },
+  cacheTtl: { default: 5, minimum: 1 },
+  snapshotCacheTtl: { default: 60, minimum: 10 },
+};
+
+/**
+ * Returns the problems found in a schedule, presets are referred to by name.
+ */
+const validateSchedule = (schedule: unknown, presetNames: string[]) => {
+  if (!Array.isArray(schedule)) {
+    return ['"schedule" must be a list.'];
+  }
+
+  const problems: string[] = [];
+  schedule.forEach((entry, index) => {
+    const where = `"schedule[${index}]"`;
+    if (typeof entry !== 'object' || entry === null) {
+      problems.push(`${where} must be an object.`);
+      return;
+    }
+    if (typeof entry.time !== 'string' || !/^([01]\d|2[0-3]):[0-5]\d$/.test(entry.time)) {
+      problems.push(`${where} must have a "time" given as HH:MM.`);
+    }
+    if (!presetNames.includes(entry.preset)) {
+      problems.push(`${where} refers to the unknown preset ${JSON.stringify(entry.preset)}.`);
+    }
+    if (entry.days !== undefined && (!Array.isArray(entry.days) || entry.days.some(day => !weekdays.includes(day)))) {
+      problems.push(`${where} must list its "days" as ${weekdays.join(', ')}.`);
+    }
+  });
+  return problems;
+};
+
+/**
+ * Validates the `presets` and `schedule` sections of the platform config, returning the valid presets,
+ * the schedule if it is valid, and a description of every problem found.
+ */
+export const parsePresets = (config: PlatformConfig) => {
+  const presets: GoogleNestPreset[] = [];
+  const errors: string[] = [];
+
+  if (config.presets !== undefined && !Array.isArray(config.presets)) {
+    errors.push('"presets" must be a list.');
+  }
+
+  (Array.isArray(config.presets) ? config.presets : []).forEach((entry, index) => {
+    const where = `presets[${index}]`;
+    const problems: string[] = [];
+
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${where} must be an object.`);
+      return;
+    }
+
+    if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+      problems.push('"name" must be a non-empty string.');
+    } else if (presets.some(p => p.name === entry.name)) {
+      problems.push(`"name" ${entry.name} is used more than once.`);
+    }
+
+    if (!['HEAT', 'COOL', 'HEATCOOL', 'OFF'].includes(entry.mode)) {
+      problems.push('"mode" must be HEAT, COOL, HEATCOOL or OFF.');
+    }
+    if (entry.eco !== undefined && typeof entry.eco !== 'boolean') {
+      problems.push('"eco" must be true or false.');
+    } else if (entry.eco && entry.mode === 'OFF') {
+      problems.push('"eco" can\'t be used with mode OFF.');
+    }
+
+    for (const key of ['heatCelsius', 'coolCelsius']) {
+      if (entry[key] !== undefined && !isNumber(entry[key])) {
+        problems.push(`"${key}" must be given in degrees Celsius.`);
+      }
+    }
+    if (!entry.eco && (entry.mode === 'HEAT' || entry.mode === 'HEATCOOL') && !isNumber(entry.heatCelsius)) {
+      problems.push(`"heatCelsius" is required for mode ${entry.mode}.`);
+    }
+    if (!entry.eco && (entry.mode === 'COOL' || entry.mode === 'HEATCOOL') && !isNumber(entry.coolCelsius)) {
+      problems.push(`"coolCelsius" is required for mode ${entry.mode}.`);
+    }
+    if (entry.mode === 'HEATCOOL' && isNumber(entry.heatCelsius) && isNumber(entry.coolCelsius)
+      && entry.heatCelsius >= entry.coolCelsius) {
+      problems.push('"heatCelsius" must be lower than "coolCelsius".');
+    }
+
+    if (problems.length > 0) {
+      errors.push(`${where} is ignored: ${problems.join(' ')}`);
+    } else {
+      presets.push(entry as GoogleNestPreset);
+    }
+  });
+
+  let schedule: GoogleNestScheduleEntry[] = [];
+  if (config.schedule !== undefined) {
+    const problems = validateSchedule(config.schedule, presets.map(p => p.name));
+    if (problems.length > 0) {
+      errors.push(`"schedule" is ignored: ${problems.join(' ')}`);
+    } else {
+      schedule = config.schedule;
+    }
+  }
+
+  return { presets, schedule, errors };
+};
+
+/**
+ * Returns the accounts listed in the `accounts` section of the platform config, or the account configured at the
+ * top level when there is no such section, along with a description of every problem found.
+ */
+export const parseAccounts = (config: PlatformConfig) => {
+  const accounts: GoogleNestAccountConfig[] = [];
+  const errors: string[] = [];
+
+  if (config.accounts === undefined || (Array.isArray(config.accounts) && config.accounts.length === 0)) {
+    const missing = ['projectId', 'clientId', 'clientSecret'].filter(key => typeof config[key] !== 'string' || config[key].trim() === '');
+    if (missing.length > 0) {
+      errors.push(`${missing.map(key => `"${key}"`).join(', ')} must be set, or a list of "accounts".`);
+      return { accounts, errors };
+    }
+
+    accounts.push({
+      projectId: config.projectId,
+      clientId: config.clientId,
+      clientSecret: config.clientSecret,
+      refreshToken: config.refreshToken,
+      subscriptionId: config.subscriptionId,
+      oauthPort: config.oauthPort ?? 8582,
+      oauthHost: config.oauthHost ?? '127.0.0.1',
+      pubsubEmulatorHost: config.pubsubEmulatorHost,
+    });
+    return { accounts, errors };
+  }
+
+  if (!Array.isArray(config.accounts)) {
+    errors.push('"accounts" must be a list.');
+    return { accounts, errors };
+  }
+
+  config.accounts.forEach((entry, index) => {
+    const where = `accounts[${index}]`;
+    const problems: string[] = [];
+
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${where} must be an object.`);
+      return;
+    }
+
+    // the name is part of the accessory UUIDs, it must not change once the accessories are paired. The account left
+    // without a name keeps the accessories of the account configured at the top level.
+    if (entry.name === undefined || entry.name === '') {
+      if (accounts.some(a => a.name === undefined)) {
+        problems.push('only one account may be left without "name".');
+      }
+    } else if (typeof entry.name !== 'string' || !/^[\w-]+$/.test(entry.name)) {
+      problems.push('"name" must consist of letters, digits, "_" and "-".');
+    } else if (accounts.some(a => a.name === entry.name)) {
+      problems.push(`"name" ${entry.name} is used more than once.`);
+    }
+
+    for (const key of ['projectId', 'clientId', 'clientSecret']) {
+      if (typeof entry[key] !== 'string' || entry[key].trim() === '') {
+        problems.push(`"${key}" is required.`);
+      }
+    }
+    for (const key of ['refreshToken', 'subscriptionId']) {
+      if (entry[key] !== undefined && typeof entry[key] !== 'string') {
+        problems.push(`"${key}" must be a string.`);
+      }
+    }
+
+    // accounts waiting for authorization serve their pages side by side
+    const oauthPort = entry.oauthPort ?? (config.oauthPort ?? 8582) + index;
+    if (!Number.isInteger(oauthPort) || oauthPort <= 0 || oauthPort > 65535) {
+      problems.push('"oauthPort" must be a port number.');
+    } else if (accounts.some(a => a.oauthPort === oauthPort)) {
+      problems.push(`"oauthPort" ${oauthPort} is used by another account.`);
+    }
+
+    if (problems.length > 0) {
+      errors.push(`${where} is ignored: ${problems.join(' ')}`);
+    } else {
+      accounts.push({
+        name: entry.name || undefined,
+        projectId: entry.projectId,
+        clientId: entry.clientId,
+        clientSecret: entry.clientSecret,
+        refreshToken: entry.refreshToken || undefined,
+        subscriptionId: entry.subscriptionId || undefined,
+        oauthPort,
+        oauthHost: config.oauthHost ?? '127.0.0.1',
+        pubsubEmulatorHost: config.pubsubEmulatorHost,
+      });
+    }
+  });
+
+  return { accounts, errors };
+};
+
+/**
+ * Returns the intervals set at the top level of the platform config, values below the minimum are raised to it and
+ * other invalid values replaced by the default, along with a description of every problem found.
+ */
+export const parseIntervals = (config: PlatformConfig) => {
+  const intervals = {} as GoogleNestIntervals;
+  const errors: string[] = [];
+
+  for (const key of Object.keys(intervalLimits) as (keyof GoogleNestIntervals)[]) {
+    const { default: fallback, minimum } = intervalLimits[key];
+    const value = config[key];
+    if (value === undefined) {
+      intervals[key] = fallback;
+    } else if (!isNumber(value)) {
+      errors.push(`"${key}" must be a number of seconds, using ${fallback}.`);
+      intervals[key] = fallback;
+    } else if (value < minimum) {
+      errors.push(`"${key}" must be at least ${minimum} second${minimum === 1 ? '' : 's'}, using ${minimum}.`);
+      intervals[key] = minimum;
+    } else {
+      intervals[key] = value;
+    }
+  }
+
+  return { intervals, errors };
+};
+
+/**
+ * Validates the `comfort` section of the platform config, returning the controller config if it is valid along with
+ * a description of every problem found. The controller is off without rules.
+ */
+export const parseComfort = (config: PlatformConfig) => {
+  const errors: string[] = [];
+  const comfort = config.comfort;
+
+  if (comfort === undefined) {
+    return { errors };
+  }
+  if (typeof comfort !== 'object' || comfort === null) {
+    errors.push('"comfort" must be an object.');
+    return { errors };
+  }
+
+  const problems: string[] = [];
+  if (!Array.isArray(comfort.rules)) {
+    problems.push('"rules" must be a list.');
+  } else {
+    comfort.rules.forEach((rule, index) => {
+      const where = `"rules[${index}]"`;
+      if (typeof rule !== 'object' || rule === null) {
+        problems.push(`${where} must be an object.`);
+        return;
+      }
+      for (const key of ['humidityAbove', 'humidityBelow']) {
+        if (rule[key] !== undefined && (!isNumber(rule[key]) || rule[key] < 0 || rule[key] > 100)) {
+          problems.push(`${where} must give "${key}" in percent.`);
+        }
+      }
+      if (rule.humidityAbove === undefined && rule.humidityBelow === undefined) {
+        problems.push(`${where} must have "humidityAbove" and/or "humidityBelow".`);
+      }
+      if (!isNumber(rule.offsetCelsius) || Math.abs(rule.offsetCelsius) > 5) {
+        problems.push(`${where} must have an "offsetCelsius" of at most 5 degrees either way.`);
+      }
+    });
+  }
+  if (comfort.hysteresis !== undefined && (!isNumber(comfort.hysteresis) || comfort.hysteresis < 0)) {
+    problems.push('"hysteresis" must be a positive percentage.');
+  }
+  if (comfort.minInterval !== undefined && (!isNumber(comfort.minInterval) || comfort.minInterval < 60)) {
+    problems.push('"minInterval" must be at least 60 seconds.');
+  }
+
+  if (problems.length > 0) {
+    errors.push(`"comfort" is ignored: ${problems.join(' ')}`);
+    return { errors };
+  }
+  if (comfort.rules.length === 0) {
+    return { errors };
+  }
+
+  const parsed: GoogleNestComfortConfig = {
+    rules: comfort.rules,
+    hysteresis: comfort.hysteresis ?? 3,
+    minInterval: comfort.minInterval ?? 900,
+  };
+  return { comfort: parsed, errors };
+};
+
+/**
+ * Validates the `devices` section of the platform config, returning the valid entries along with
+ * a description of every problem found.
+ */
+export const parseDeviceOptions = (config: PlatformConfig, presets: GoogleNestPreset[] = []) => {
+  const devices: GoogleNestDeviceOptions[] = [];
+  const errors: string[] = [];
+
+  if (config.devices === undefined) {
+    return { devices, errors };
+  }
+
+  if (!Array.isArray(config.devices)) {
+    errors.push('"devices" must be a list.');
+    return { devices, errors };
+  }
+
+  config.devices.forEach((entry, index) => {
+    const where = `devices[${index}]`;
+    const problems: string[] = [];
+
+    if (typeof entry !== 'object' || entry === null) {
+      errors.push(`${where} must be an object.`);
+      return;
+    }
+
+    if (typeof entry.id !== 'string' || entry.id.trim() === '') {
+      problems.push('"id" must be a device name or room name.');
+    } else if (devices.some(d => d.id === entry.id)) {
+      problems.push(`"id" ${entry.id} is configured more than once.`);
+    }
+
+    for (const key of ['hidden', 'exposeEcoSwitch', 'exposeHumiditySensor', 'exposeTemperatureSensor', 'exposeOfflineSensor']) {
+      if (entry[key] !== undefined && typeof entry[key] !== 'boolean') {
+        problems.push(`"${key}" must be true or false.`);
+      }
+    }
+
+    if (entry.displayName !== undefined && (typeof entry.displayName !== 'string' || entry.displayName.trim() === '')) {
+      problems.push('"displayName" must be a non-empty string.');
+    }
+
+    if (entry.cacheTtl !== undefined && (!isNumber(entry.cacheTtl) || entry.cacheTtl < intervalLimits.cacheTtl.minimum)) {
+      problems.push(`"cacheTtl" must be at least ${intervalLimits.cacheTtl.minimum} second.`);
+    }
+
+    if (entry.schedule !== undefined) {
+      problems.push(...validateSchedule(entry.schedule, presets.map(p => p.name)));
+    }
+
+    const limits = entry.setpointLimits;
+    if (limits !== undefined) {
+      if (typeof limits !== 'object' || limits === null) {
+        problems.push('"setpointLimits" must be an object.');
+      } else if ((limits.minCelsius !== undefined && !isNumber(limits.minCelsius))
+        || (limits.maxCelsius !== undefined && !isNumber(limits.maxCelsius))) {
+        problems.push('"setpointLimits" must be given in degrees Celsius.');
+      } else if (isNumber(limits.minCelsius) && isNumber(limits.maxCelsius) && limits.minCelsius >= limits.maxCelsius) {
+        problems.push('"setpointLimits.minCelsius" must be lower than "setpointLimits.maxCelsius".');
+      }
+    }
+
+    if (problems.length > 0) {
+      errors.push(`${where} is ignored: ${problems.join(' ')}`);
+      return;
+    }
+
+    // a single request refreshes all devices of an account, the rest of the entry still applies
+    if (entry.pollInterval !== undefined) {
+      errors.push(`${where}: "pollInterval" is ignored, all devices are refreshed together at the top-level "pollInterval".`);
+    }
+    devices.push(entry as GoogleNestDeviceOptions);
+  });
+
+  return { devices, errors };
+};
+
+/**
+ * Finds the options configured for a device, an entry for the device name wins over one for its room name.
+ */
+export const findDeviceOptions = (devices: GoogleNestDeviceOptions[], name: string, displayName?: string): GoogleNestDeviceOptions => {
+  return devices.find(d => d.id === name)
+    ?? devices.find(d => displayName !== undefined && d.id === displayName)
+    ?? { id: name };
+};
@@ -0,0 +1,158 @@
+import assert from 'assert';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { GoogleNestFakeClient } from './test/fakeClient';
+import { hap, read, TestHomebridge, waitFor } from './test/harness';
+
+/**
+ * Serves the pull and acknowledge requests of a single subscription like the Pub/Sub emulator does, holding pulls
+ * for a moment while there is nothing to deliver.
+ */
+class PubsubEmulator {
+  private readonly server = http.createServer((req, res) => this.handle(req, res));
+  private queued: { ackId: string; message: { data: string } }[] = [];
+  private nextAckId = 1;
+  readonly acknowledged: string[] = [];
+
+  constructor(
+    readonly subscription: string,
+  ) {}
+
+  async start() {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', resolve));
+    return `127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop() {
+    this.server.close();
+  }
+
+  /**
+   * Queues a message, strings are sent as they are.
+   */
+  publish(payload: unknown) {
+    const data = Buffer.from(typeof payload === 'string' ? payload : JSON.stringify(payload)).toString('base64');
+    this.queued.push({ ackId: String(this.nextAckId++), message: { data } });
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse) {
+    const respond = (body: unknown) => {
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify(body));
+    };
+
+    let body = '';
+    req.on('data', chunk => body += chunk);
+    req.on('end', () => {
+      if (req.url === `/v1/${this.subscription}:pull`) {
+        setTimeout(() => {
+          respond({ receivedMessages: this.queued.splice(0) });
+        }, this.queued.length > 0 ? 0 : 100);
+      } else if (req.url === `/v1/${this.subscription}:acknowledge`) {
+        this.acknowledged.push(...JSON.parse(body).ackIds);
+        respond({});
+      } else {
+        res.statusCode = 404;
+        respond({ error: { code: 404, status: 'NOT_FOUND', message: `Unknown resource ${req.url}.` } });
+      }
+    });
+  }
+}
+
+describe('GoogleNestEventSubscriber', () => {
+  let homebridge: TestHomebridge;
+  let client: GoogleNestFakeClient;
+  let emulator: PubsubEmulator;
+  let name: string;
+  let doorbell: string;
+
+  const { Service, Characteristic: C } = hap;
+
+  beforeEach(async () => {
+    homebridge = new TestHomebridge();
+    client = new GoogleNestFakeClient();
+    name = client.addThermostat({ id: 'hall', roomName: 'Hall', ambientCelsius: 20 });
+    doorbell = client.addCamera({ id: 'door', roomName: 'Door', doorbell: true });
+    emulator = new PubsubEmulator('projects/fake-project/subscriptions/nest');
+    const pubsubEmulatorHost = await emulator.start();
+    // the cached state must not expire during a test, only events can change it
+    await homebridge.launch({ subscriptionId: emulator.subscription, pubsubEmulatorHost, cacheTtl: 600, eventResetInterval: 1 }, client, 2);
+  });
+
+  /**
+   * Publishes a camera event the way the SDM API does, the updates of an event thread share its id.
+   */
+  const publishEvent = (type: string, eventThreadId: string, timestamp = new Date()) => {
+    emulator.publish({
+      eventId: 'message-' + Math.random(),
+      timestamp: timestamp.toISOString(),
+      eventThreadId,
+      resourceUpdate: { name: doorbell, events: { [type]: { eventId: 'event-' + eventThreadId, eventSessionId: 'session-1' } } },
+    });
+  };
+
+  afterEach(async () => {
+    await homebridge.shutdown();
+    emulator.stop();
+  });
+
+  it('applies trait updates pulled from the emulator', async () => {
+    const thermostat = homebridge.service('Hall', Service.Thermostat);
+    client.setAmbient(name, 23);
+
+    emulator.publish({
+      eventId: 'event-1',
+      timestamp: new Date().toISOString(),
+      resourceUpdate: {
+        name,
+        traits: { 'sdm.devices.traits.Temperature': { ambientTemperatureCelsius: 23 } },
+      },
+    });
+
+    await waitFor(async () => await read(thermostat, C.CurrentTemperature) === 23);
+    await waitFor(() => emulator.acknowledged.includes('1'));
+  });
+
+  it('rings the doorbell once for all updates of an event thread', async () => {
+    const presses: unknown[] = [];
+    homebridge.service('Door', Service.Doorbell).getCharacteristic(C.ProgrammableSwitchEvent).on('change', ({ newValue }) => {
+      presses.push(newValue);
+    });
+
+    publishEvent('sdm.devices.events.DoorbellChime.Chime', 'thread-1');
+    publishEvent('sdm.devices.events.DoorbellChime.Chime', 'thread-1');
+    await waitFor(() => emulator.acknowledged.length === 2);
+    publishEvent('sdm.devices.events.DoorbellChime.Chime', 'thread-2');
+    await waitFor(() => emulator.acknowledged.length === 3);
+
+    assert.deepStrictEqual(presses, [C.ProgrammableSwitchEvent.SINGLE_PRESS, C.ProgrammableSwitchEvent.SINGLE_PRESS]);
+  });
+
+  it('triggers the motion sensor and resets it after the quiet period', async () => {
+    const motion = homebridge.service('Door', Service.MotionSensor, 'motion');
+
+    publishEvent('sdm.devices.events.CameraMotion.Motion', 'thread-1');
+
+    await waitFor(async () => await read(motion, C.MotionDetected) === true);
+    assert.strictEqual(await read(homebridge.service('Door', Service.MotionSensor, 'sound'), C.MotionDetected), false);
+    await waitFor(async () => await read(motion, C.MotionDetected) === false);
+  });
+
+  it('ignores stale events', async () => {
+    const person = homebridge.service('Door', Service.OccupancySensor, 'person');
+
+    publishEvent('sdm.devices.events.CameraPerson.Person', 'thread-1', new Date(Date.now() - 2 * 60 * 1000));
+
+    await waitFor(() => emulator.acknowledged.length === 1);
+    assert.strictEqual(await read(person, C.OccupancyDetected), C.OccupancyDetected.OCCUPANCY_NOT_DETECTED);
+  });
+
+  it('acknowledges events of unknown devices and malformed messages', async () => {
+    emulator.publish({ resourceUpdate: { name: 'enterprises/fake-project/devices/unknown', traits: {} } });
+    emulator.publish('not an event');
+
+    await waitFor(() => emulator.acknowledged.length === 2);
+    assert.ok(homebridge.log.messages.some(m => m.message.startsWith('Ignored malformed device event')));
+    assert.ok(!homebridge.log.messages.some(m => m.message.startsWith('Pulling device events failed')));
+  });
+});
@@ -0,0 +1,163 @@
+import { Logging } from 'homebridge';
+import { pubsub_v1 } from 'googleapis';
+import { seconds, Traits } from './api';
+
+/**
+ * A device event such as a doorbell press or detected motion.
+ */
+export type GoogleNestDeviceEvent = {
+  // e.g. sdm.devices.events.DoorbellChime.Chime
+  type: string;
+  eventId?: string;
+  eventSessionId?: string;
+  eventThreadId?: string;
+  eventThreadState?: 'STARTED' | 'UPDATED' | 'ENDED';
+  timestamp?: string;
+};
+
+/**
+ * Receiver of the resource updates published for a single device.
+ */
+export interface GoogleNestEventHandler {
+  onTraitsUpdate?(traits: Traits): void;
+  onDeviceEvent?(event: GoogleNestDeviceEvent): void;
+}
+
+/**
+ * Payload of an SDM Pub/Sub message, see
+ * https://developers.google.com/nest/device-access/api/events
+ */
+type ResourceUpdateMessage = {
+  eventId?: string;
+  timestamp?: string;
+  eventThreadId?: string;
+  eventThreadState?: 'STARTED' | 'UPDATED' | 'ENDED';
+  resourceUpdate?: {
+    name?: string;
+    traits?: Traits;
+    events?: { [type: string]: { eventId?: string; eventSessionId?: string } };
+  };
+};
+
+const sleep = (ms: number) => {
+  return new Promise(resolve => setTimeout(resolve, ms));
+};
+
+/**
+ * Pulls device events from the Pub/Sub subscription configured for the Device Access project
+ * and dispatches trait updates to the handlers of the corresponding devices.
+ */
+export class GoogleNestEventSubscriber {
+  private handlers = new Map<string, GoogleNestEventHandler>();
+  private running = false;
+  private retryInterval = seconds(30);
+
+  constructor(
+    private readonly log: Logging,
+    private readonly pubsub: pubsub_v1.Pubsub,
+    private readonly subscription: string,
+    // returns true for errors which are reported elsewhere
+    private readonly isHandledError: (e: unknown) => boolean = () => false,
+  ) {}
+
+  subscribe(name: string, handler: GoogleNestEventHandler) {
+    this.handlers.set(name, handler);
+  }
+
+  unsubscribe(name: string) {
+    this.handlers.delete(name);
+  }
+
+  start() {
+    if (this.running) {
+      return;
+    }
+
+    this.running = true;
+    this.log.info('Listening for device events on', this.subscription);
+    this.pull();
+  }
+
+  stop() {
+    this.running = false;
+  }
+
+  private async pull() {
+    while (this.running) {
+      try {
+        const res = await this.pubsub.projects.subscriptions.pull({
+          subscription: this.subscription,
+          requestBody: {
+            maxMessages: 10,
+          },
+        });
+
+        const ackIds: string[] = [];
+        for (const received of res.data.receivedMessages ?? []) {
+          if (received.ackId) {
+            ackIds.push(received.ackId);
+          }
+          this.dispatch(received.message);
+        }
+
+        if (ackIds.length > 0) {
+          await this.pubsub.projects.subscriptions.acknowledge({
+            subscription: this.subscription,
+            requestBody: {
+              ackIds,
+            },
+          });
+        }
+      } catch (e) {
+        if (this.isHandledError(e)) {
+          await sleep(this.retryInterval);
+          continue;
+        }
+        this.log.error('Pulling device events failed, retrying in', this.retryInterval / 1000, 'seconds:', (e as Error).message);
+        await sleep(this.retryInterval);
+      }
+    }
+  }
+
+  private dispatch(message?: pubsub_v1.Schema$PubsubMessage) {
+    if (!message?.data) {
+      return;
+    }
+
+    let payload: ResourceUpdateMessage;
+    try {
+      payload = JSON.parse(Buffer.from(message.data, 'base64').toString('utf8'));
+    } catch (e) {
+      this.log.error('Ignored malformed device event:', message.data);
+      return;
+    }
+
+    const update = payload.resourceUpdate;
+    if (!update?.name) {
+      return;
+    }
+
+    const handler = this.handlers.get(update.name);
+    if (!handler) {
+      this.log.debug('Ignored event for unknown device:', update.name);
+      return;
+    }
+
+    if (update.traits && handler.onTraitsUpdate) {
+      this.log.debug('Received trait update for', update.name, JSON.stringify(update.traits));
+      handler.onTraitsUpdate(update.traits);
+    }
+
+    for (const [type, event] of Object.entries(update.events ?? {})) {
+      this.log.debug('Received event for', update.name, type);
+      handler.onDeviceEvent?.({
+        type,
+        eventId: event.eventId,
+        eventSessionId: event.eventSessionId,
+        eventThreadId: payload.eventThreadId,
+        eventThreadState: payload.eventThreadState,
+        timestamp: payload.timestamp,
+      });
+    }
+  }
+}
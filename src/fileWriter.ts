@@ -0,0 +1,33 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Writes files one after the other, so that writes of the same file never overlap and the last one queued wins.
+ * Directories are created as needed, failures are reported to `onError` and the returned promises never reject.
+ */
+export class GoogleNestFileWriter {
+  private writing: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly onError: (e: Error) => void,
+  ) {}
+
+  write(file: string, data: string): Promise<void> {
+    this.writing = this.writing.then(async () => {
+      try {
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, data);
+      } catch (e) {
+        this.onError(e as Error);
+      }
+    });
+    return this.writing;
+  }
+
+  /**
+   * Resolves once the writes queued so far are done.
+   */
+  flush(): Promise<void> {
+    return this.writing;
+  }
+}
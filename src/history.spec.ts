@@ -0,0 +1,78 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PlatformAccessory } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import { GoogleNestHistory } from './history';
+import { DeviceTraits, GoogleNestThermostatCharacteristics } from './characteristics';
+import { createLog, waitFor } from './test/harness';
+
+describe('GoogleNestHistory', () => {
+  let storagePath: string;
+  let api: HomebridgeAPI;
+  let accessory: PlatformAccessory;
+  const log = createLog();
+
+  const characteristics = (traits: DeviceTraits) => {
+    return new GoogleNestThermostatCharacteristics(traits, message => {
+      throw new Error(message);
+    });
+  };
+
+  const file = () => path.join(storagePath, 'history', 'hall.json');
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'homebridge-nest-google-'));
+    api = Object.assign(new HomebridgeAPI(), { user: { storagePath: () => storagePath } });
+    accessory = new api.platformAccessory('Hall', api.hap.uuid.generate('hall'));
+    accessory.context.name = 'enterprises/fake-project/devices/hall';
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('records the state of the thermostat for the Eve app', async () => {
+    const history = new GoogleNestHistory(log, api, accessory, storagePath, 1);
+
+    history.record(characteristics({
+      currentTemperature: 20, relativeHumidity: 40, targetMode: 'HEAT', temperatureSetpoint: { heatCelsius: 21 }, hvacStatus: 'HEATING',
+    }));
+    history.record(characteristics({
+      currentTemperature: 21, ecoMode: 'MANUAL_ECO', ecoTemperatureSetpoint: { heatCelsius: 12, coolCelsius: 28 }, hvacStatus: 'OFF',
+    }));
+    await history.dispose();
+
+    const samples = history.getSamples().map(sample => ({ ...sample, time: undefined }));
+    assert.deepStrictEqual(samples, [
+      { time: undefined, currentTemperature: 20, relativeHumidity: 40, heatCelsius: 21, coolCelsius: undefined, hvacStatus: 'HEATING' },
+      { time: undefined, currentTemperature: 21, relativeHumidity: undefined, heatCelsius: 12, coolCelsius: 28, hvacStatus: 'OFF' },
+    ]);
+    assert.ok(accessory.services.some(service => service.UUID === 'E863F007-079E-48FF-8F27-9C2605A29F52'));
+    // the Eve entries follow the reference time entry, the setpoint is the eco one while eco mode is on
+    const entries = history['eve']['history'].filter(entry => entry.currentTemp !== undefined);
+    assert.deepStrictEqual(entries.map(({ currentTemp, setTemp, valvePosition }) => [currentTemp, setTemp, valvePosition]), [
+      [20, 21, 100],
+      [21, 12, 0],
+    ]);
+  });
+
+  it('restores the stored samples and drops the ones past the retention period', async () => {
+    const day = 24 * 60 * 60 * 1000;
+    fs.mkdirSync(path.dirname(file()), { recursive: true });
+    fs.writeFileSync(file(), JSON.stringify([
+      { time: Date.now() - 2 * day, currentTemperature: 18 },
+      { time: Date.now() - day / 2, currentTemperature: 19 },
+    ]));
+
+    const history = new GoogleNestHistory(log, api, accessory, storagePath, 1);
+    await waitFor(() => history['loaded']);
+    history.record(characteristics({ currentTemperature: 20 }));
+    await history.dispose();
+
+    assert.deepStrictEqual(history.getSamples().map(sample => sample.currentTemperature), [19, 20]);
+    const stored = JSON.parse(fs.readFileSync(file(), 'utf8'));
+    assert.deepStrictEqual(stored.map(sample => sample.currentTemperature), [19, 20]);
+  });
+});
@@ -0,0 +1,172 @@
+import { API, Logging, PlatformAccessory } from 'homebridge';
+import { promises as fs } from 'fs';
+import path from 'path';
+import fakegato from 'fakegato-history';
+import { seconds } from './api';
+import { GoogleNestThermostatCharacteristics } from './characteristics';
+
+/**
+ * State of a thermostat at a point in time, temperatures in degrees Celsius.
+ */
+export type GoogleNestHistorySample = {
+  time: number;
+  currentTemperature?: number;
+  relativeHumidity?: number;
+  // setpoints the thermostat held to, the eco range while eco mode was on
+  heatCelsius?: number;
+  coolCelsius?: number;
+  hvacStatus?: 'COOLING' | 'HEATING' | 'OFF';
+};
+
+/**
+ * The part of the history service of fakegato-history used, the package comes without types.
+ */
+type EveHistoryService = {
+  // time in seconds since the epoch, temperatures in degrees Celsius and the valve position in percent
+  addEntry(entry: { time: number; currentTemp: number; setTemp: number; valvePosition: number }): void;
+};
+
+// UUID of the Eve history service added by fakegato-history
+const historyServiceUUID = 'E863F007-079E-48FF-8F27-9C2605A29F52';
+
+/**
+ * Records the temperatures, setpoints and HVAC status of a thermostat, persists them in the storage path of
+ * the plugin and feeds them to the history service read by the Eve app.
+ */
+export class GoogleNestHistory {
+  private samples: GoogleNestHistorySample[] = [];
+  private dirty = false;
+  // Eve entries must be added in order, samples recorded before the stored ones are read wait for them
+  private loaded = false;
+  private timer: NodeJS.Timeout;
+  private eve: EveHistoryService;
+  // time of the last tick of the timer
+  private tickedAt = Date.now();
+
+  // Eve expects regular entries, the state is recorded again every ten minutes unless it changed since. The timer of
+  // fakegato-history does not repeat the entries of thermostats, and its storage is not used as the samples are
+  // persisted here, so it is turned off.
+  private interval = seconds(10 * 60);
+  private retention = seconds(this.retentionDays * 24 * 60 * 60);
+  private file = path.join(this.storagePath, 'history', this.accessory.context.name.split('/').pop() + '.json');
+
+  constructor(
+    private readonly log: Logging,
+    private readonly api: API,
+    private readonly accessory: PlatformAccessory,
+    private readonly storagePath: string,
+    private readonly retentionDays: number,
+  ) {
+    // adds the history service to the accessory, or picks up the one restored with a cached accessory
+    const FakeGatoHistoryService = fakegato(this.api);
+    this.eve = new FakeGatoHistoryService('thermo', this.accessory, { log: this.log, size: 4032, disableTimer: true });
+
+    this.timer = setInterval(() => {
+      const last = this.samples[this.samples.length - 1];
+      if (last && last.time < this.tickedAt) {
+        this.add({ ...last, time: Date.now() });
+      }
+      this.tickedAt = Date.now();
+      this.save();
+    }, this.interval);
+
+    this.load();
+  }
+
+  /**
+   * Removes the Eve history service, used when the history is turned off.
+   */
+  static removeService(accessory: PlatformAccessory) {
+    for (const service of accessory.services.filter(s => s.UUID === historyServiceUUID)) {
+      accessory.removeService(service);
+    }
+  }
+
+  getSamples(): GoogleNestHistorySample[] {
+    return this.samples.slice();
+  }
+
+  record(characteristics: GoogleNestThermostatCharacteristics) {
+    const traits = characteristics.getRawTraits();
+    const setpoint = (traits.ecoMode === 'MANUAL_ECO' ? traits.ecoTemperatureSetpoint : traits.temperatureSetpoint) ?? {};
+    this.add({
+      time: Date.now(),
+      currentTemperature: traits.currentTemperature,
+      relativeHumidity: traits.relativeHumidity,
+      heatCelsius: setpoint.heatCelsius,
+      coolCelsius: setpoint.coolCelsius,
+      hvacStatus: traits.hvacStatus,
+    });
+  }
+
+  /**
+   * Stops recording and writes the pending samples.
+   */
+  dispose() {
+    clearInterval(this.timer);
+    return this.save();
+  }
+
+  private add(sample: GoogleNestHistorySample) {
+    this.samples.push(sample);
+    this.dirty = true;
+    if (this.loaded) {
+      this.addEveEntry(sample);
+    }
+  }
+
+  private addEveEntry(sample: GoogleNestHistorySample) {
+    if (sample.currentTemperature === undefined) {
+      return;
+    }
+
+    const setpoint = sample.hvacStatus === 'COOLING' ?
+      sample.coolCelsius ?? sample.heatCelsius : sample.heatCelsius ?? sample.coolCelsius;
+    this.eve.addEntry({
+      time: Math.round(sample.time / 1000),
+      currentTemp: sample.currentTemperature,
+      setTemp: setpoint ?? sample.currentTemperature,
+      // Eve shows the valve position of its own thermostats, report whether the system runs instead
+      valvePosition: sample.hvacStatus === 'HEATING' || sample.hvacStatus === 'COOLING' ? 100 : 0,
+    });
+  }
+
+  private async load() {
+    try {
+      const stored: GoogleNestHistorySample[] = JSON.parse(await fs.readFile(this.file, 'utf8'));
+      const since = Date.now() - this.retention;
+      const first = this.samples[0]?.time ?? Infinity;
+      this.samples = stored.filter(sample => sample.time >= since && sample.time < first).concat(this.samples);
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.error('Reading the history of', this.accessory.displayName, 'failed:', (e as Error).message);
+      }
+    }
+
+    this.loaded = true;
+    for (const sample of this.samples) {
+      this.addEveEntry(sample);
+    }
+  }
+
+  /**
+   * Drops the samples past the retention period and writes the rest, if anything changed since the last write.
+   */
+  private async save() {
+    if (!this.dirty) {
+      return;
+    }
+
+    const since = Date.now() - this.retention;
+    this.samples = this.samples.filter(sample => sample.time >= since);
+    this.dirty = false;
+
+    try {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      await fs.writeFile(this.file, JSON.stringify(this.samples));
+    } catch (e) {
+      this.dirty = true;
+      this.log.error('Storing the history of', this.accessory.displayName, 'failed:', (e as Error).message);
+    }
+  }
+}
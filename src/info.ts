@@ -0,0 +1,64 @@
+import { Characteristic, PlatformAccessory, Service } from 'homebridge';
+import { Device } from './client';
+
+/**
+ * What the SDM API tells about a device besides its state, the room and structure taken from its parent relations.
+ * The API reports no firmware version, model number or HVAC equipment such as heat pumps or emergency heat.
+ */
+export type GoogleNestDeviceInfo = {
+  id: string;
+  model: string;
+  // name given to the device in the Google Home app, unset if the device was never named
+  customName?: string;
+  room?: { id: string; name?: string };
+  structure?: { id: string };
+};
+
+// HomeKit drops serial numbers longer than 64 characters
+const maxLength = 64;
+
+const deviceTypeToModel = (type?: string | null) => {
+  switch (type) {
+    case 'sdm.devices.types.THERMOSTAT':
+      return 'Thermostat';
+    case 'sdm.devices.types.DOORBELL':
+      return 'Doorbell';
+    case 'sdm.devices.types.DISPLAY':
+      return 'Display';
+    default:
+      return 'Camera';
+  }
+};
+
+export const deviceInfo = (device: Device): GoogleNestDeviceInfo => {
+  const info: GoogleNestDeviceInfo = {
+    id: device.name!.split('/').pop()!,
+    model: deviceTypeToModel(device.type),
+    customName: device.traits?.['sdm.devices.traits.Info']?.customName || undefined,
+  };
+
+  // parents are named enterprises/{project}/structures/{structure}/rooms/{room}
+  const [relation] = device.parentRelations ?? [];
+  const match = /\/structures\/([^/]+)(?:\/rooms\/([^/]+))?$/.exec(relation?.parent ?? '');
+  if (match) {
+    info.structure = { id: match[1] };
+    if (match[2]) {
+      info.room = { id: match[2], name: relation.displayName || undefined };
+    }
+  }
+  return info;
+};
+
+/**
+ * Sets the accessory information from the device info, the device id serves as a serial number stable across
+ * restarts and re-pairing. The firmware revision is left unknown, the SDM API does not report it.
+ */
+export const setAccessoryInformation = (accessory: PlatformAccessory, service: typeof Service, C: typeof Characteristic,
+  info: GoogleNestDeviceInfo) => {
+  accessory.getService(service.AccessoryInformation)!
+    .setCharacteristic(C.Manufacturer, 'Google Nest')
+    .setCharacteristic(C.Model, info.model)
+    .setCharacteristic(C.SerialNumber, info.id.slice(-maxLength))
+    // the placeholder Homebridge gives restored accessories, HAP warns about accessories without a firmware revision
+    .setCharacteristic(C.FirmwareRevision, '0');
+};
@@ -0,0 +1,225 @@
+import { Logging } from 'homebridge';
+import { createSocket } from 'dgram';
+import { CommandParams, CommandResults } from './client';
+import { seconds } from './api';
+
+export type GoogleNestStreamProtocol = 'RTSP' | 'WEB_RTC';
+
+type ExecuteCommand = (command: string, params: CommandParams) => Promise<CommandResults>;
+
+/**
+ * A live stream of a camera, generated for a snapshot or a stream session and stopped once done. Streams expire
+ * after five minutes unless extended.
+ */
+export interface GoogleNestLiveStream {
+  // ffmpeg arguments reading the stream
+  readonly input: string[];
+  // written to the stdin of ffmpeg when set
+  readonly stdin?: string;
+  extend(): Promise<void>;
+  stop(): Promise<void>;
+}
+
+class RtspStream implements GoogleNestLiveStream {
+  readonly input = ['-rtsp_transport', 'tcp', '-i', this.url];
+
+  constructor(
+    private readonly executeCommand: ExecuteCommand,
+    private readonly url: string,
+    private extensionToken: string,
+  ) {}
+
+  static async generate(executeCommand: ExecuteCommand) {
+    const results = await executeCommand('sdm.devices.commands.CameraLiveStream.GenerateRtspStream', {});
+    return new RtspStream(executeCommand, results.streamUrls.rtspUrl, results.streamExtensionToken);
+  }
+
+  async extend() {
+    const results = await this.executeCommand('sdm.devices.commands.CameraLiveStream.ExtendRtspStream', {
+      streamExtensionToken: this.extensionToken,
+    });
+    this.extensionToken = results.streamExtensionToken;
+  }
+
+  async stop() {
+    await this.executeCommand('sdm.devices.commands.CameraLiveStream.StopRtspStream', {
+      streamExtensionToken: this.extensionToken,
+    });
+  }
+}
+
+// the subset of werift used, the package is an optional dependency loaded on first use
+type Subscribable<T extends unknown[]> = { subscribe(handler: (...args: T) => void): unknown };
+type RtpPacket = { header: { payloadType: number }; serialize(): Buffer };
+type Track = { ssrc?: number; onReceiveRtp: Subscribable<[RtpPacket]> };
+type Transceiver = { onTrack: Subscribable<[Track]>; receiver: { sendRtcpPLI(ssrc: number): Promise<void> } };
+type PeerConnection = {
+  localDescription?: { sdp: string };
+  addTransceiver(kind: 'audio' | 'video', options: { direction: 'recvonly' }): Transceiver;
+  createDataChannel(label: string): unknown;
+  createOffer(): Promise<{ type: 'offer'; sdp: string }>;
+  setLocalDescription(description: { type: 'offer'; sdp: string }): Promise<unknown>;
+  setRemoteDescription(description: { type: 'answer'; sdp: string }): Promise<void>;
+  close(): Promise<void>;
+};
+type Werift = {
+  RTCPeerConnection: new (config: Record<string, unknown>) => PeerConnection;
+  RTCRtpCodecParameters: new (props: Record<string, unknown>) => unknown;
+};
+
+let werift: Werift | null | undefined;
+
+/**
+ * Loads werift, undefined if it is not installed or does not run on this version of Node.js.
+ */
+const loadWerift = (): Werift | undefined => {
+  if (werift === undefined) {
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-var-requires
+      werift = require('werift') as Werift;
+    } catch (e) {
+      werift = null;
+    }
+  }
+  return werift ?? undefined;
+};
+
+export const isWebRtcAvailable = () => {
+  return loadWerift() !== undefined;
+};
+
+const freeUdpPort = () => {
+  return new Promise<number>((resolve, reject) => {
+    const socket = createSocket('udp4');
+    socket.on('error', reject);
+    socket.bind(0, '127.0.0.1', () => {
+      const { port } = socket.address();
+      socket.close(() => resolve(port));
+    });
+  });
+};
+
+// payload type of the video in the SDP handed to ffmpeg, packets are rewritten to it
+const videoPayloadType = 96;
+
+/**
+ * Receives the video of a WebRTC stream and forwards its RTP packets to ffmpeg on a local port, described to
+ * ffmpeg by an SDP passed on its stdin. Audio is negotiated, as Nest requires, but not forwarded.
+ */
+class WebRtcStream implements GoogleNestLiveStream {
+  readonly input = ['-protocol_whitelist', 'pipe,udp,rtp', '-f', 'sdp', '-i', 'pipe:0'];
+  readonly stdin = [
+    'v=0',
+    'o=- 0 0 IN IP4 127.0.0.1',
+    's=Google Nest',
+    'c=IN IP4 127.0.0.1',
+    't=0 0',
+    `m=video ${this.port} RTP/AVP ${videoPayloadType}`,
+    `a=rtpmap:${videoPayloadType} H264/90000`,
+    `a=fmtp:${videoPayloadType} packetization-mode=1`,
+    '',
+  ].join('\r\n');
+
+  private mediaSessionId?: string;
+  private socket = createSocket('udp4');
+  private keyframeTimer?: NodeJS.Timeout;
+  private closed = false;
+
+  // ffmpeg starts decoding with a key frame, request them until it had the time to join
+  private keyframeInterval = seconds(2);
+  private keyframeRequests = 5;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly executeCommand: ExecuteCommand,
+    private readonly pc: PeerConnection,
+    video: Transceiver,
+    private readonly port: number,
+  ) {
+    this.socket.on('error', e => this.log.debug('Forwarding the WebRTC stream failed:', e.message));
+    video.onTrack.subscribe(track => {
+      track.onReceiveRtp.subscribe(rtp => {
+        if (!this.closed) {
+          rtp.header.payloadType = videoPayloadType;
+          this.socket.send(rtp.serialize(), this.port, '127.0.0.1');
+        }
+      });
+
+      let requests = 0;
+      const requestKeyframe = () => {
+        if (track.ssrc !== undefined && requests++ < this.keyframeRequests) {
+          video.receiver.sendRtcpPLI(track.ssrc).catch(e => this.log.debug('Requesting a key frame failed:', (e as Error).message));
+        }
+      };
+      requestKeyframe();
+      this.keyframeTimer = setInterval(requestKeyframe, this.keyframeInterval);
+    });
+  }
+
+  static async generate(log: Logging, executeCommand: ExecuteCommand) {
+    const { RTCPeerConnection, RTCRtpCodecParameters } = loadWerift()!;
+    const pc = new RTCPeerConnection({
+      bundlePolicy: 'max-bundle',
+      codecs: {
+        audio: [new RTCRtpCodecParameters({ mimeType: 'audio/opus', clockRate: 48000, channels: 2 })],
+        video: [new RTCRtpCodecParameters({
+          mimeType: 'video/H264',
+          clockRate: 90000,
+          rtcpFeedback: [{ type: 'nack' }, { type: 'nack', parameter: 'pli' }, { type: 'goog-remb' }],
+          parameters: 'level-asymmetry-allowed=1;packetization-mode=1;profile-level-id=42e01f',
+        })],
+      },
+    });
+
+    // Nest only answers offers for audio, video and a data channel, in this order
+    pc.addTransceiver('audio', { direction: 'recvonly' });
+    const video = pc.addTransceiver('video', { direction: 'recvonly' });
+    pc.createDataChannel('data');
+
+    const stream = new WebRtcStream(log, executeCommand, pc, video, await freeUdpPort());
+    try {
+      await pc.setLocalDescription(await pc.createOffer());
+      const results = await executeCommand('sdm.devices.commands.CameraLiveStream.GenerateWebRtcStream', {
+        offerSdp: pc.localDescription!.sdp,
+      });
+      stream.mediaSessionId = results.mediaSessionId;
+      await pc.setRemoteDescription({ type: 'answer', sdp: results.answerSdp });
+    } catch (e) {
+      await stream.stop().catch(() => undefined);
+      throw e;
+    }
+    return stream;
+  }
+
+  async extend() {
+    const results = await this.executeCommand('sdm.devices.commands.CameraLiveStream.ExtendWebRtcStream', {
+      mediaSessionId: this.mediaSessionId,
+    });
+    this.mediaSessionId = results.mediaSessionId ?? this.mediaSessionId;
+  }
+
+  async stop() {
+    if (!this.closed) {
+      this.closed = true;
+      if (this.keyframeTimer) {
+        clearInterval(this.keyframeTimer);
+      }
+      this.socket.close();
+      this.pc.close().catch(e => this.log.debug('Closing the WebRTC connection failed:', (e as Error).message));
+    }
+
+    if (this.mediaSessionId) {
+      const mediaSessionId = this.mediaSessionId;
+      this.mediaSessionId = undefined;
+      await this.executeCommand('sdm.devices.commands.CameraLiveStream.StopWebRtcStream', { mediaSessionId });
+    }
+  }
+}
+
+/**
+ * Generates a live stream of the camera over the given protocol.
+ */
+export const generateLiveStream = (protocol: GoogleNestStreamProtocol, log: Logging,
+  executeCommand: ExecuteCommand): Promise<GoogleNestLiveStream> => {
+  return protocol === 'RTSP' ? RtspStream.generate(executeCommand) : WebRtcStream.generate(log, executeCommand);
+};
@@ -0,0 +1,71 @@
+import assert from 'assert';
+import { createServer, AddressInfo, Server } from 'net';
+import { createBroker } from 'aedes';
+import { connect, MqttClient } from 'mqtt';
+import { GoogleNestFakeClient } from './test/fakeClient';
+import { TestHomebridge, waitFor } from './test/harness';
+
+describe('GoogleNestMqttBridge', () => {
+  let homebridge: TestHomebridge;
+  let client: GoogleNestFakeClient;
+  let broker: ReturnType<typeof createBroker>;
+  let server: Server;
+  let subscriber: MqttClient;
+  let name: string;
+  // last message received per topic
+  let received: Map<string, string>;
+
+  beforeEach(async () => {
+    broker = createBroker();
+    server = createServer(broker.handle);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const mqttUrl = `mqtt://127.0.0.1:${(server.address() as AddressInfo).port}`;
+
+    homebridge = new TestHomebridge();
+    client = new GoogleNestFakeClient();
+    name = client.addThermostat({ id: 'hall', roomName: 'Hall', mode: 'HEAT', heatCelsius: 19, ambientCelsius: 20 });
+    await homebridge.launch({ mqttUrl }, client);
+
+    received = new Map();
+    subscriber = connect(mqttUrl);
+    subscriber.on('message', (topic, payload) => received.set(topic, payload.toString('utf8')));
+    await new Promise(resolve => subscriber.subscribe('nest/#', resolve));
+  });
+
+  afterEach(async () => {
+    await homebridge.shutdown();
+    subscriber.end(true);
+    server.close();
+    broker.close();
+  });
+
+  const state = () => JSON.parse(received.get('nest/hall/state') ?? '{}');
+
+  it('publishes the bridge status and the retained state of the thermostats', async () => {
+    await waitFor(() => received.get('nest/bridge/status') === 'online' && received.has('nest/hall/state'));
+
+    assert.strictEqual(state().targetMode, 'HEAT');
+    assert.strictEqual(state().heatCelsius, 19);
+    assert.strictEqual(state().temperature, 20);
+  });
+
+  it('passes commands to the thermostat and publishes the new state', async () => {
+    await waitFor(() => received.has('nest/hall/state'));
+
+    subscriber.publish('nest/hall/command/ThermostatTemperatureSetpoint.SetHeat', JSON.stringify({ heatCelsius: 22 }));
+
+    const setpoint = async () => (await client.getDevice(name)).traits!['sdm.devices.traits.ThermostatTemperatureSetpoint'];
+    await waitFor(async () => (await setpoint()).heatCelsius === 22);
+    await waitFor(() => state().heatCelsius === 22);
+  });
+
+  it('ignores unsupported commands and unknown devices', async () => {
+    await waitFor(() => received.has('nest/hall/state'));
+
+    subscriber.publish('nest/hall/command/CameraLiveStream.GenerateRtspStream', '{}');
+    subscriber.publish('nest/garage/command/ThermostatMode.SetMode', JSON.stringify({ mode: 'COOL' }));
+
+    await waitFor(() => homebridge.log.messages.filter(m => m.message.startsWith('Ignoring')).length === 2);
+    assert.strictEqual((await client.getDevice(name)).traits!['sdm.devices.traits.ThermostatMode'].mode, 'HEAT');
+  });
+});
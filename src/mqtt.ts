@@ -0,0 +1,151 @@
+import { Logging } from 'homebridge';
+import { connect, IClientOptions, MqttClient } from 'mqtt';
+import { DeviceTraits } from './characteristics';
+import { CommandParams } from './client';
+
+/**
+ * Receiver of the commands published for a single device.
+ */
+export interface GoogleNestMqttHandler {
+  executeCommand(command: string, params: CommandParams): Promise<unknown>;
+}
+
+// commands accepted on <topic>/<device id>/command/<command>, named without the sdm.devices.commands. prefix
+const commands = [
+  'ThermostatMode.SetMode',
+  'ThermostatEco.SetMode',
+  'ThermostatTemperatureSetpoint.SetHeat',
+  'ThermostatTemperatureSetpoint.SetCool',
+  'ThermostatTemperatureSetpoint.SetRange',
+  'Fan.SetTimer',
+];
+
+const deviceId = (name: string) => {
+  return name.split('/').pop()!;
+};
+
+/**
+ * Publishes the state of every thermostat as retained JSON on <topic>/<device id>/state and passes the
+ * commands published on <topic>/<device id>/command/<command> to the thermostat, e.g.
+ * nest/<device id>/command/ThermostatMode.SetMode with the payload {"mode": "HEAT"}. The availability of
+ * the bridge itself is kept on <topic>/bridge/status.
+ */
+export class GoogleNestMqttBridge {
+  private client?: MqttClient;
+  private handlers = new Map<string, GoogleNestMqttHandler>();
+  // last payload per device, unchanged states are not published again
+  private published = new Map<string, string>();
+
+  private statusTopic = `${this.topic}/bridge/status`;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly url: string,
+    private readonly options: IClientOptions,
+    private readonly topic: string,
+  ) {}
+
+  register(name: string, handler: GoogleNestMqttHandler) {
+    this.handlers.set(name, handler);
+  }
+
+  unregister(name: string) {
+    this.handlers.delete(name);
+    this.published.delete(name);
+  }
+
+  start() {
+    if (this.client) {
+      return;
+    }
+
+    this.client = connect(this.url, {
+      ...this.options,
+      will: { topic: this.statusTopic, payload: 'offline', qos: 1, retain: true },
+    });
+    this.client.on('connect', () => {
+      this.log.info('Connected to MQTT broker at', this.url);
+      this.client!.publish(this.statusTopic, 'online', { qos: 1, retain: true });
+      this.client!.subscribe(`${this.topic}/+/command/+`, { qos: 1 });
+      // the broker may have lost retained messages while the connection was down
+      for (const [name, payload] of this.published) {
+        this.client!.publish(this.stateTopic(name), payload, { qos: 1, retain: true });
+      }
+    });
+    this.client.on('message', (topic, payload) => this.handleMessage(topic, payload.toString('utf8')));
+    this.client.on('error', e => this.log.error('MQTT failed:', e.message));
+  }
+
+  stop() {
+    if (this.client) {
+      // end() sends the pending messages first
+      this.client.publish(this.statusTopic, 'offline', { qos: 1, retain: true });
+      this.client.end();
+      this.client = undefined;
+    }
+  }
+
+  /**
+   * Publishes the state of a device, called on every update of its cached traits.
+   */
+  publishState(name: string, traits: DeviceTraits) {
+    const setpoint = traits.temperatureSetpoint ?? {};
+    const payload = JSON.stringify({
+      connectivity: traits.connectivity,
+      temperature: traits.currentTemperature,
+      humidity: traits.relativeHumidity,
+      hvacStatus: traits.hvacStatus,
+      targetMode: traits.targetMode,
+      heatCelsius: setpoint.heatCelsius,
+      coolCelsius: setpoint.coolCelsius,
+      eco: traits.ecoMode,
+      ecoHeatCelsius: traits.ecoTemperatureSetpoint?.heatCelsius,
+      ecoCoolCelsius: traits.ecoTemperatureSetpoint?.coolCelsius,
+      displayUnit: traits.displayUnit,
+      fanTimerMode: traits.fanTimerMode,
+    });
+    if (this.published.get(name) === payload) {
+      return;
+    }
+
+    this.published.set(name, payload);
+    this.client?.publish(this.stateTopic(name), payload, { qos: 1, retain: true });
+  }
+
+  private stateTopic(name: string) {
+    return `${this.topic}/${deviceId(name)}/state`;
+  }
+
+  private handleMessage(topic: string, payload: string) {
+    const match = topic.slice(this.topic.length + 1).match(/^([^/]+)\/command\/([^/]+)$/);
+    if (!topic.startsWith(this.topic + '/') || !match) {
+      return;
+    }
+
+    const [, id, command] = match;
+    const name = Array.from(this.handlers.keys()).find(name => deviceId(name) === id);
+    if (!name) {
+      this.log.warn('Ignoring MQTT command', command, 'for unknown device', id);
+      return;
+    }
+    if (!commands.includes(command)) {
+      this.log.warn('Ignoring unsupported MQTT command', command, 'for', id);
+      return;
+    }
+
+    let params: CommandParams;
+    try {
+      params = JSON.parse(payload || '{}');
+      if (typeof params !== 'object' || params === null || Array.isArray(params)) {
+        throw new Error('expected a JSON object');
+      }
+    } catch (e) {
+      this.log.warn('Ignoring MQTT command', command, 'for', id, 'with invalid parameters:', (e as Error).message);
+      return;
+    }
+
+    this.log.info('MQTT command', command, 'for', id + ':', payload);
+    this.handlers.get(name)!.executeCommand('sdm.devices.commands.' + command, params)
+      .catch(e => this.log.error('MQTT command', command, 'for', id, 'failed:', (e as Error).message));
+  }
+}
@@ -0,0 +1,56 @@
+import assert from 'assert';
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { google } from 'googleapis';
+import { GoogleNestAuthorization } from './oauth';
+import { createLog, waitFor } from './test/harness';
+
+describe('GoogleNestAuthorization', () => {
+  let storagePath: string;
+  let authorization: GoogleNestAuthorization;
+  let port: number;
+
+  const get = (pathname: string) => {
+    return new Promise<{ status?: number; body: string }>((resolve, reject) => {
+      http.get({ host: '127.0.0.1', port, path: pathname }, res => {
+        let body = '';
+        res.on('data', chunk => body += chunk);
+        res.on('end', () => resolve({ status: res.statusCode, body }));
+      }).on('error', reject);
+    });
+  };
+
+  beforeEach(async () => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'homebridge-nest-google-'));
+    const config = { projectId: 'fake-project', clientId: 'client', clientSecret: 'secret', oauthPort: 0, oauthHost: '127.0.0.1' };
+    authorization = new GoogleNestAuthorization(createLog(), config, storagePath, new google.auth.OAuth2('client', 'secret'));
+    authorization.startServer();
+    const server = () => authorization['server'] as http.Server;
+    await waitFor(() => server().listening);
+    port = (server().address() as AddressInfo).port;
+  });
+
+  afterEach(() => {
+    authorization.stopServer();
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('listens on the configured host only', () => {
+    assert.strictEqual((authorization['server']!.address() as AddressInfo).address, '127.0.0.1');
+  });
+
+  it('rejects callbacks with a state other than the one of its page', async () => {
+    const { body } = await get('/');
+    const state = new URL(/href="([^"]*partnerconnections[^"]*)"/.exec(body)![1].replace(/&amp;/g, '&')).searchParams.get('state');
+    assert.match(state!, /^[0-9a-f]{32}$/);
+
+    for (const callback of ['/auth/callback?code=stolen', '/auth/callback?code=stolen&state=guessed']) {
+      const response = await get(callback);
+      assert.strictEqual(response.status, 500);
+      assert.match(response.body, /not started from this page/);
+    }
+  });
+});
@@ -0,0 +1,207 @@
+import { Logging } from 'homebridge';
+import { Auth } from 'googleapis';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { randomBytes } from 'crypto';
+import { promises as fs } from 'fs';
+import { URL } from 'url';
+import path from 'path';
+import { GoogleNestAccountConfig } from './config';
+
+type StoredTokens = {
+  refreshToken: string;
+  // refresh token from the config when these tokens were stored, a new one in the config takes precedence
+  configRefreshToken?: string;
+};
+
+const escapeHtml = (text: string) => {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+};
+
+const page = (body: string) => {
+  return `<!DOCTYPE html><html><head><meta charset="utf-8"><title>Google Nest</title></head><body>${body}</body></html>`;
+};
+
+/**
+ * Obtains and keeps the refresh token of the platform: loads tokens persisted by an earlier authorization,
+ * persists rotated tokens, and runs a small local web page walking through the Partner Connections Manager
+ * authorization when there is no valid refresh token.
+ */
+export class GoogleNestAuthorization {
+  private server?: Server;
+  private promptedReauthorization = false;
+  // passed through the authorization, a callback without it was not started from this page
+  private state = '';
+
+  private readonly tokensPath = path.join(this.storagePath, this.config.name ? `tokens-${this.config.name}.json` : 'tokens.json');
+  private readonly port: number = this.config.oauthPort;
+  private readonly host: string = this.config.oauthHost;
+  private readonly redirectUri = `http://localhost:${this.port}/auth/callback`;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly config: GoogleNestAccountConfig,
+    private readonly storagePath: string,
+    private readonly auth: Auth.OAuth2Client,
+  ) {
+    this.auth.on('tokens', tokens => {
+      if (tokens.refresh_token) {
+        this.log.info('Received a new refresh token.');
+        this.store(tokens.refresh_token);
+      }
+    });
+  }
+
+  /**
+   * Sets up the credentials of the client, returns false if there is no refresh token to use yet.
+   */
+  async load(): Promise<boolean> {
+    let refreshToken: string | undefined = this.config.refreshToken;
+
+    try {
+      const stored: StoredTokens = JSON.parse(await fs.readFile(this.tokensPath, 'utf8'));
+      if (stored.refreshToken && (!this.config.refreshToken || stored.configRefreshToken === this.config.refreshToken)) {
+        refreshToken = stored.refreshToken;
+      }
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.error('Reading stored tokens failed:', (e as Error).message);
+      }
+    }
+
+    if (!refreshToken) {
+      return false;
+    }
+
+    this.auth.setCredentials({
+      refresh_token: refreshToken,
+    });
+    return true;
+  }
+
+  private async store(refreshToken: string) {
+    const stored: StoredTokens = {
+      refreshToken,
+      configRefreshToken: this.config.refreshToken,
+    };
+
+    try {
+      await fs.mkdir(this.storagePath, { recursive: true });
+      await fs.writeFile(this.tokensPath, JSON.stringify(stored, null, 2), { mode: 0o600 });
+    } catch (e) {
+      this.log.error('Storing tokens failed:', (e as Error).message);
+    }
+  }
+
+  /**
+   * Returns true if a request failed because Google revoked the refresh token.
+   */
+  isAuthorizationError(e: unknown): boolean {
+    const data = (e as { response?: { data?: { error?: string } } })?.response?.data;
+    return data?.error === 'invalid_grant';
+  }
+
+  /**
+   * Prompts the user to authorize the plugin again if the request failed because of the refresh token, returns
+   * true in that case as the error is reported then.
+   */
+  handleAuthorizationError(e: unknown): boolean {
+    if (!this.isAuthorizationError(e)) {
+      return false;
+    }
+
+    if (!this.promptedReauthorization) {
+      this.promptedReauthorization = true;
+      this.log.error('Google rejected the refresh token, it was revoked or has expired.');
+      this.startServer();
+    }
+    return true;
+  }
+
+  /**
+   * Starts the authorization page, `onAuthorized` is called once new tokens are stored.
+   */
+  startServer(onAuthorized?: () => void) {
+    if (this.server) {
+      return;
+    }
+
+    this.state = randomBytes(16).toString('hex');
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res, onAuthorized).catch(e => {
+        this.log.error('Authorization failed:', (e as Error).message);
+        res.writeHead(500, { 'Content-Type': 'text/html' });
+        res.end(page(`<p>Authorization failed: ${escapeHtml((e as Error).message)}</p><p><a href="/">Try again</a></p>`));
+      });
+    });
+    this.server.on('error', e => this.log.error('Authorization page failed:', e.message));
+    this.server.listen(this.port, this.host, () => {
+      const host = this.host === '127.0.0.1' ? 'localhost' : '<homebridge host>';
+      this.log.warn(`Please authorize access to your Nest devices at http://${host}:${this.port}/`);
+    });
+  }
+
+  stopServer() {
+    this.server?.close();
+    this.server = undefined;
+  }
+
+  private authorizationUrl() {
+    const scopes = ['https://www.googleapis.com/auth/sdm.service'];
+    if (this.config.subscriptionId) {
+      scopes.push('https://www.googleapis.com/auth/pubsub');
+    }
+
+    const url = new URL(`https://nestservices.google.com/partnerconnections/${this.config.projectId}/auth`);
+    url.searchParams.set('redirect_uri', this.redirectUri);
+    url.searchParams.set('access_type', 'offline');
+    url.searchParams.set('prompt', 'consent');
+    url.searchParams.set('client_id', this.config.clientId);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('scope', scopes.join(' '));
+    url.searchParams.set('state', this.state);
+    return url.toString();
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse, onAuthorized?: () => void) {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname !== '/auth/callback') {
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      res.end(page(`
+        <h1>Authorize Google Nest</h1>
+        <p>Make sure <code>${escapeHtml(this.redirectUri)}</code> is an authorized redirect URI of your OAuth client,
+          then <a href="${escapeHtml(this.authorizationUrl())}">sign in with Google</a> and allow access to your devices.</p>
+        <p>If your browser does not run on the Homebridge host, the final redirect fails to load.
+          Copy the address of that page and paste it here:</p>
+        <form action="/auth/callback"><input name="url" size="80"> <button>Submit</button></form>`));
+      return;
+    }
+
+    // the code is either passed by the redirect or pasted as part of the redirect URL
+    const pasted = url.searchParams.get('url');
+    const params = pasted ? new URL(pasted, 'http://localhost').searchParams : url.searchParams;
+    const code = params.get('code');
+    if (!code) {
+      throw new Error(params.get('error') ?? url.searchParams.get('error') ?? 'no authorization code received');
+    }
+    if (params.get('state') !== this.state) {
+      throw new Error('the authorization was not started from this page');
+    }
+
+    const { tokens } = await this.auth.getToken({ code, redirect_uri: this.redirectUri });
+    if (!tokens.refresh_token) {
+      throw new Error('Google did not return a refresh token');
+    }
+
+    this.auth.setCredentials(tokens);
+    await this.store(tokens.refresh_token);
+    this.promptedReauthorization = false;
+    this.log.info('Authorization succeeded, tokens stored in', this.tokensPath);
+
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    res.end(page('<p>Authorization succeeded, you can close this page.</p>'));
+
+    this.stopServer();
+    onAuthorized?.();
+  }
+}
@@ -0,0 +1,388 @@
+import assert from 'assert';
+import fs from 'fs';
+import path from 'path';
+import { PLUGIN_NAME } from './settings';
+import { GoogleNestFakeClient, GoogleNestFakeThermostatOptions } from './test/fakeClient';
+import { hap, read, TestHomebridge, waitFor, write } from './test/harness';
+
+describe('GoogleNestPlatform', () => {
+  let homebridge: TestHomebridge;
+  let client: GoogleNestFakeClient;
+  let name: string;
+
+  const { Service, Characteristic: C, HAPStatus } = hap;
+
+  /**
+   * Starts the platform with a single thermostat, changes made to the fake are picked up by `homebridge.refresh()`.
+   */
+  const launch = async (thermostat: Partial<GoogleNestFakeThermostatOptions> = {}, config = {}, clientOptions = {}) => {
+    client = new GoogleNestFakeClient(clientOptions);
+    name = client.addThermostat({ id: 'hall', roomName: 'Hall', ...thermostat });
+    await homebridge.launch(config, client);
+  };
+
+  const thermostat = () => homebridge.service('Hall', Service.Thermostat);
+
+  const traits = async () => (await client.getDevice(name)).traits!;
+
+  beforeEach(() => {
+    homebridge = new TestHomebridge();
+  });
+
+  afterEach(async () => {
+    await homebridge.shutdown();
+  });
+
+  describe('config', () => {
+    const errors = () => homebridge.log.messages.filter(m => m.message.startsWith('Invalid config:')).map(m => m.message);
+
+    it('raises a discovery interval below the minimum', async () => {
+      await launch({}, { discoveryInterval: 0 });
+
+      assert.deepStrictEqual(errors(), ['Invalid config: "discoveryInterval" must be at least 60 seconds, using 60.']);
+      assert.strictEqual(homebridge.platform!.intervals.discoveryInterval, 60);
+    });
+
+    it('uses the default discovery interval in place of a value that is not a number', async () => {
+      await launch({}, { discoveryInterval: '5' });
+
+      assert.deepStrictEqual(errors(), ['Invalid config: "discoveryInterval" must be a number of seconds, using 600.']);
+      assert.strictEqual(homebridge.platform!.intervals.discoveryInterval, 600);
+    });
+
+    it('raises the poll interval and cache TTL to their minimums', async () => {
+      await launch({}, { pollInterval: 1, cacheTtl: 0 });
+
+      assert.deepStrictEqual(errors(), [
+        'Invalid config: "pollInterval" must be at least 10 seconds, using 10.',
+        'Invalid config: "cacheTtl" must be at least 1 second, using 1.',
+      ]);
+      assert.strictEqual(homebridge.platform!.intervals.pollInterval, 10);
+      assert.strictEqual(homebridge.platform!.intervals.cacheTtl, 1);
+    });
+
+    it('ignores the poll interval of a device and keeps its other options', async () => {
+      await launch({}, { devices: [{ id: 'Hall', pollInterval: 10, displayName: 'Hallway' }] });
+
+      assert.deepStrictEqual(errors(), [
+        'Invalid config: devices[0]: "pollInterval" is ignored, all devices are refreshed together at the top-level "pollInterval".',
+      ]);
+      assert.strictEqual(homebridge.platform!.intervals.pollInterval, 60);
+      assert.strictEqual(homebridge.accessories[0].displayName, 'Hallway');
+    });
+  });
+
+  describe('accessory information', () => {
+    it('names the accessory after the device and keeps the model and firmware to what is known', async () => {
+      await launch({ customName: 'Upstairs' });
+
+      const information = homebridge.service('Upstairs', Service.AccessoryInformation);
+      assert.strictEqual(information.getCharacteristic(C.Name).value, 'Upstairs');
+      assert.strictEqual(information.getCharacteristic(C.Model).value, 'Thermostat');
+      assert.strictEqual(information.getCharacteristic(C.SerialNumber).value, 'hall');
+      assert.strictEqual(information.getCharacteristic(C.FirmwareRevision).value, '0');
+    });
+  });
+
+  describe('discovery', () => {
+    const names = () => homebridge.accessories.map(accessory => accessory.displayName).sort();
+
+    it('registers the devices of every page', async () => {
+      client = new GoogleNestFakeClient({ pageSize: 1 });
+      for (const id of ['hall', 'kitchen', 'office']) {
+        client.addThermostat({ id, roomName: id });
+      }
+      await homebridge.launch({}, client, 3);
+
+      assert.deepStrictEqual(names(), ['hall', 'kitchen', 'office']);
+    });
+
+    it('picks up devices added, renamed and removed in the Google Home app', async () => {
+      await launch();
+
+      const kitchen = client.addThermostat({ id: 'kitchen', roomName: 'Kitchen' });
+      client.setRoomName(name, 'Hallway');
+      await homebridge.discover();
+      assert.deepStrictEqual(names(), ['Hallway', 'Kitchen']);
+
+      client.removeDevice(kitchen);
+      await homebridge.discover();
+      assert.deepStrictEqual(names(), ['Hallway']);
+    });
+
+    it('keeps the accessories when a discovery fails', async () => {
+      await launch();
+
+      client.failNext(10, 503);
+      await homebridge.discover();
+
+      assert.deepStrictEqual(names(), ['Hall']);
+    });
+  });
+
+  describe('accounts', () => {
+    const credentials = { projectId: 'fake-project', clientId: 'client-id', clientSecret: 'client-secret', refreshToken: 'refresh-token' };
+
+    it('keeps the accessories and stored state of the same device apart per account', async () => {
+      client = new GoogleNestFakeClient();
+      name = client.addThermostat({ id: 'hall', roomName: 'Hall' });
+      await homebridge.launch({ accounts: [credentials, { ...credentials, name: 'cabin' }] }, client, 2);
+
+      assert.deepStrictEqual(homebridge.accessories.map(accessory => accessory.UUID).sort(),
+        [hap.uuid.generate(name), hap.uuid.generate('cabin/' + name)].sort());
+      assert.deepStrictEqual(homebridge.accessories.map(accessory => accessory.context.account).sort(), ['cabin', undefined]);
+
+      const pluginPath = path.join(homebridge.storagePath, PLUGIN_NAME);
+      await waitFor(() => fs.existsSync(path.join(pluginPath, 'devices', 'hall.json'))
+        && fs.existsSync(path.join(pluginPath, 'accounts', 'cabin', 'devices', 'hall.json')));
+      assert.ok(homebridge.log.messages.some(m => m.message.startsWith('[cabin] Discovering')));
+    });
+  });
+
+  describe('modes', () => {
+    it('exposes the modes the thermostat supports', async () => {
+      await launch({ availableModes: ['HEAT', 'OFF'] });
+
+      const props = thermostat().getCharacteristic(C.TargetHeatingCoolingState).props;
+      assert.deepStrictEqual(props.validValues, [C.TargetHeatingCoolingState.HEAT, C.TargetHeatingCoolingState.OFF]);
+      assert.strictEqual(thermostat().testCharacteristic(C.HeatingThresholdTemperature), false);
+    });
+
+    it('changes the mode', async () => {
+      await launch();
+
+      await write(thermostat(), C.TargetHeatingCoolingState, C.TargetHeatingCoolingState.COOL);
+
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatMode'].mode, 'COOL');
+      assert.strictEqual(await read(thermostat(), C.TargetHeatingCoolingState), C.TargetHeatingCoolingState.COOL);
+    });
+
+    it('reports heating while the room is colder than the setpoint', async () => {
+      await launch({ heatCelsius: 21, ambientCelsius: 18 });
+
+      assert.strictEqual(await read(thermostat(), C.CurrentHeatingCoolingState), C.CurrentHeatingCoolingState.HEAT);
+      client.setAmbient(name, 22);
+      await homebridge.refresh();
+      assert.strictEqual(await read(thermostat(), C.CurrentHeatingCoolingState), C.CurrentHeatingCoolingState.OFF);
+    });
+  });
+
+  describe('setpoints', () => {
+    it('sets the heat setpoint in HEAT mode', async () => {
+      await launch({ mode: 'HEAT' });
+
+      await write(thermostat(), C.TargetTemperature, 21.5);
+
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'].heatCelsius, 21.5);
+      assert.strictEqual(await read(thermostat(), C.TargetTemperature), 21.5);
+    });
+
+    it('sets the cool setpoint in COOL mode', async () => {
+      await launch({ mode: 'COOL' });
+
+      await write(thermostat(), C.TargetTemperature, 25);
+
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'].coolCelsius, 25);
+    });
+
+    it('keeps the other end of the range in HEATCOOL mode', async () => {
+      await launch({ mode: 'HEATCOOL', heatCelsius: 19, coolCelsius: 24 });
+
+      await write(thermostat(), C.HeatingThresholdTemperature, 18);
+      await write(thermostat(), C.CoolingThresholdTemperature, 26);
+
+      assert.deepStrictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'], { heatCelsius: 18, coolCelsius: 26 });
+    });
+
+    it('changes the range right after switching to HEATCOOL mode', async () => {
+      await launch({ mode: 'HEAT', heatCelsius: 19, coolCelsius: 24 });
+
+      await write(thermostat(), C.TargetHeatingCoolingState, C.TargetHeatingCoolingState.AUTO);
+      await write(thermostat(), C.HeatingThresholdTemperature, 18);
+
+      assert.deepStrictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'], { heatCelsius: 18, coolCelsius: 24 });
+    });
+
+    it('snaps setpoints to whole degrees Fahrenheit on thermostats showing Fahrenheit', async () => {
+      await launch({ mode: 'HEAT', temperatureScale: 'FAHRENHEIT' });
+
+      // 21 °C is 69.8 °F
+      await write(thermostat(), C.TargetTemperature, 21);
+
+      const heatCelsius = (await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'].heatCelsius;
+      assert.strictEqual(Math.round(heatCelsius * 1.8 + 32), 70);
+      assert.ok(Math.abs(heatCelsius * 1.8 + 32 - 70) < 1e-9);
+    });
+
+    it('moves the other end of the range to keep the heat and cool setpoints apart', async () => {
+      await launch({ mode: 'HEATCOOL', heatCelsius: 19, coolCelsius: 24 });
+
+      await write(thermostat(), C.HeatingThresholdTemperature, 23.5);
+      assert.deepStrictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'], { heatCelsius: 23.5, coolCelsius: 25 });
+
+      await write(thermostat(), C.CoolingThresholdTemperature, 20);
+      assert.deepStrictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'], { heatCelsius: 18.5, coolCelsius: 20 });
+    });
+
+    it('rejects setpoints outside of the range of the thermostat', async () => {
+      await launch({ mode: 'HEAT' }, { devices: [{ id: 'Hall', setpointLimits: { maxCelsius: 25 } }] });
+
+      await assert.rejects(write(thermostat(), C.TargetTemperature, 26), error => error === HAPStatus.INVALID_VALUE_IN_REQUEST);
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'].heatCelsius, 19);
+    });
+
+    it('rejects setpoints while the thermostat is off', async () => {
+      await launch({ mode: 'OFF' });
+
+      await assert.rejects(write(thermostat(), C.TargetTemperature, 21), error => error === HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    });
+  });
+
+  describe('eco', () => {
+    const ecoSwitch = () => homebridge.service('Hall', Service.Switch, 'eco_mode_0');
+
+    it('turns eco mode on and off', async () => {
+      await launch();
+
+      await write(ecoSwitch(), C.On, true);
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatEco'].mode, 'MANUAL_ECO');
+      assert.strictEqual(await read(ecoSwitch(), C.On), true);
+
+      await write(ecoSwitch(), C.On, false);
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatEco'].mode, 'OFF');
+    });
+
+    it('shows the eco range and rejects setpoints and modes in eco mode', async () => {
+      await launch({ mode: 'HEAT', ecoMode: 'MANUAL_ECO', ecoHeatCelsius: 12 });
+
+      assert.strictEqual(await read(thermostat(), C.TargetTemperature), 12);
+      await assert.rejects(write(thermostat(), C.TargetTemperature, 21), error => error === HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+      await assert.rejects(write(thermostat(), C.TargetHeatingCoolingState, C.TargetHeatingCoolingState.COOL),
+        error => error === HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    });
+
+    it('handles thermostats without eco mode', async () => {
+      await launch({ eco: false, mode: 'HEAT', heatCelsius: 19 });
+
+      assert.strictEqual(homebridge.accessories[0].getServiceById(Service.Switch, 'eco_mode_0'), undefined);
+      assert.strictEqual(await read(thermostat(), C.TargetTemperature), 19);
+      await write(thermostat(), C.TargetTemperature, 20);
+      await write(thermostat(), C.TargetHeatingCoolingState, C.TargetHeatingCoolingState.COOL);
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatMode'].mode, 'COOL');
+    });
+  });
+
+  describe('fan', () => {
+    const fan = () => homebridge.service('Hall', Service.Fanv2);
+
+    it('runs the fan for the configured duration and shows the time left', async () => {
+      await launch({ fan: true }, { fanDuration: 600 });
+
+      await write(fan(), C.Active, C.Active.ACTIVE);
+
+      const timer = (await traits())['sdm.devices.traits.Fan'];
+      assert.strictEqual(timer.timerMode, 'ON');
+      assert.ok(Math.abs(Date.parse(timer.timerTimeout) - Date.now() - 600 * 1000) < 5000);
+      assert.strictEqual(await read(fan(), C.Active), C.Active.ACTIVE);
+      const remaining = await read(fan(), C.RemainingDuration) as number;
+      assert.ok(remaining > 595 && remaining <= 600);
+
+      await write(fan(), C.Active, C.Active.INACTIVE);
+      assert.strictEqual((await traits())['sdm.devices.traits.Fan'].timerMode, 'OFF');
+      assert.strictEqual(await read(fan(), C.RemainingDuration), 0);
+    });
+
+    it('adds no fan to thermostats without one', async () => {
+      await launch();
+
+      assert.strictEqual(homebridge.accessories[0].getService(Service.Fanv2), undefined);
+    });
+  });
+
+  describe('availability', () => {
+    it('reports an offline thermostat', async () => {
+      await launch();
+
+      client.setOnline(name, false);
+      await homebridge.refresh();
+
+      await assert.rejects(read(thermostat(), C.CurrentTemperature), error => error === HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      assert.strictEqual(await read(thermostat(), C.StatusActive), false);
+      assert.strictEqual(await read(thermostat(), C.StatusFault), C.StatusFault.GENERAL_FAULT);
+
+      client.setOnline(name, true);
+      await homebridge.refresh();
+      assert.strictEqual(await read(thermostat(), C.CurrentTemperature), 20);
+      assert.strictEqual(await read(thermostat(), C.StatusActive), true);
+    });
+
+    it('serves the last known state while the API fails', async () => {
+      await launch({ ambientCelsius: 21 });
+
+      client.failNext(10, 503);
+      await homebridge.refresh();
+
+      assert.strictEqual(await read(thermostat(), C.CurrentTemperature), 21);
+      assert.strictEqual(await read(thermostat(), C.StatusActive), false);
+    });
+
+    it('fails reads with a HAP status once the last known state is too old', async () => {
+      await launch({}, { cacheTtl: 1, maxStaleness: 0 });
+      const warnings: string[] = [];
+      thermostat().getCharacteristic(C.CurrentTemperature).on('characteristic-warning', (type, message) => warnings.push(message));
+
+      client.failNext(10);
+      // the state is fetched again once the cache expired, and is stale by then
+      await new Promise(resolve => setTimeout(resolve, 1100));
+
+      await assert.rejects(read(thermostat(), C.CurrentTemperature), error => error === HAPStatus.SERVICE_COMMUNICATION_FAILURE);
+      assert.deepStrictEqual(warnings, []);
+    });
+  });
+
+  describe('rate limits', () => {
+    it('drops commands while rate limited', async () => {
+      await launch({ mode: 'HEAT' }, {}, { commandsPerMinute: 2 });
+
+      await write(thermostat(), C.TargetTemperature, 20);
+      await write(thermostat(), C.TargetTemperature, 21);
+      await assert.rejects(write(thermostat(), C.TargetTemperature, 22), error => error === HAPStatus.RESOURCE_BUSY);
+      // no further request is made until the rate limit is over
+      await assert.rejects(write(thermostat(), C.TargetTemperature, 23), error => error === HAPStatus.RESOURCE_BUSY);
+
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'].heatCelsius, 21);
+    });
+  });
+
+  describe('presets', () => {
+    const presets = [{ name: 'Day', mode: 'HEAT', heatCelsius: 21 }];
+    const dayPreset = () => homebridge.service('Hall', Service.Switch, 'preset_Day');
+
+    it('applies a preset and shows whether the thermostat holds it', async () => {
+      await launch({ mode: 'COOL' }, { presets });
+
+      await write(dayPreset(), C.On, true);
+
+      assert.strictEqual((await traits())['sdm.devices.traits.ThermostatMode'].mode, 'HEAT');
+      assert.strictEqual(await read(dayPreset(), C.On), true);
+      await write(thermostat(), C.TargetTemperature, 19);
+      assert.strictEqual(await read(dayPreset(), C.On), false);
+    });
+
+    it('keeps holding a preset while the comfort control offsets its setpoints', async () => {
+      const comfort = { rules: [{ humidityAbove: 60, offsetCelsius: -1 }] };
+      await launch({ mode: 'HEAT', heatCelsius: 21 }, { presets, comfort });
+      const setpoint = async () => (await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'].heatCelsius;
+
+      client.setAmbient(name, 20, 70);
+      await homebridge.refresh();
+      await waitFor(async () => await setpoint() === 20);
+
+      assert.strictEqual(await read(dayPreset(), C.On), true);
+
+      await write(thermostat(), C.TargetTemperature, 23);
+      await write(dayPreset(), C.On, true);
+      assert.strictEqual(await setpoint(), 20);
+    });
+  });
+});
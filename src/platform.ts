@@ -1,7 +1,27 @@
 import { API, DynamicPlatformPlugin, Logging, PlatformAccessory, PlatformConfig, Service, Characteristic } from 'homebridge';
 import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
 import { GoogleNestThermostatHandler } from './platformAccessory';
-import { google, smartdevicemanagement_v1 } from 'googleapis';
+import { GoogleNestCameraHandler } from './cameraAccessory';
+import { seconds } from './api';
+import {
+  findDeviceOptions, GoogleNestComfortConfig, GoogleNestDeviceOptions, GoogleNestIntervals, GoogleNestPreset, GoogleNestScheduleEntry,
+  parseAccounts, parseComfort, parseDeviceOptions, parseIntervals, parsePresets,
+} from './config';
+import { Device, GoogleNestClient } from './client';
+import { accountStoragePath, GoogleNestAccount } from './account';
+import { GoogleNestTraitCache } from './traitCache';
+import path from 'path';
+import { deviceInfo, GoogleNestDeviceInfo, setAccessoryInformation } from './info';
+import { GoogleNestHttpApi } from './server';
+import { GoogleNestMqttBridge } from './mqtt';
+
+/**
+ * Returns the name of the room the device is in, as set in the Google Home app.
+ */
+const deviceDisplayName = (device: Device) => {
+  const [relation] = device.parentRelations ?? [];
+  return relation?.displayName || 'Device ' + device.name!.slice(-6);
+};
 
 /**
  * HomebridgePlatform
@@ -12,25 +32,82 @@ export class GoogleNestPlatform implements DynamicPlatformPlugin {
   public readonly Service: typeof Service = this.api.hap.Service;
   public readonly Characteristic: typeof Characteristic = this.api.hap.Characteristic;
 
-  // this is used to track restored cached accessories
+  // this is used to track restored cached accessories and accessories registered since
   public readonly accessories: PlatformAccessory[] = [];
 
-  private cached = false;
+  // handlers of the accessories set up so far, by accessory UUID
+  private readonly handlers = new Map<string, GoogleNestThermostatHandler | GoogleNestCameraHandler>();
+
+  // set when the local HTTP API is configured
+  public readonly httpApi?: GoogleNestHttpApi;
+
+  // set when an MQTT broker is configured
+  public readonly mqtt?: GoogleNestMqttBridge;
+
+  // Google accounts whose devices are exposed, each with its own clients
+  private readonly accounts: GoogleNestAccount[];
+  private readonly removesStaleAccounts: boolean;
+
+  private discoveryTimer?: NodeJS.Timeout;
+
+  private readonly deviceOptions: GoogleNestDeviceOptions[];
+
+  public readonly presets: GoogleNestPreset[];
+  // used by thermostats without a schedule of their own
+  public readonly schedule: GoogleNestScheduleEntry[];
+
+  // set when comfort rules are configured
+  public readonly comfort?: GoogleNestComfortConfig;
+
+  // directory for the files the plugin persists
+  public readonly storagePath = path.join(this.api.user.storagePath(), PLUGIN_NAME);
+
+  // validated intervals of the platform config
+  public readonly intervals: GoogleNestIntervals;
+
+  // how long the last known state of a device is served while the API can't be reached
+  public readonly maxStaleness = seconds(this.config.maxStaleness ?? 3600);
 
   constructor(
     public readonly log: Logging,
     public readonly config: PlatformConfig,
     public readonly api: API,
+    // tests pass a fake used for every account instead of the googleapis client
+    client?: GoogleNestClient,
   ) {
+    const { accounts, errors: accountErrors } = parseAccounts(this.config);
+    const { presets, schedule, errors: presetErrors } = parsePresets(this.config);
+    const { comfort, errors: comfortErrors } = parseComfort(this.config);
+    const { intervals, errors: intervalErrors } = parseIntervals(this.config);
+    const { devices, errors } = parseDeviceOptions(this.config, presets);
+    for (const error of accountErrors.concat(presetErrors, comfortErrors, intervalErrors, errors)) {
+      this.log.error('Invalid config:', error);
+    }
+    this.accounts = accounts.map(account => new GoogleNestAccount(this.log, account, this.storagePath, client));
+    // a mistake in the accounts must not drop the accessories of the account it was meant for
+    this.removesStaleAccounts = accountErrors.length === 0;
+    this.presets = presets;
+    this.schedule = schedule;
+    this.comfort = comfort;
+    this.intervals = intervals;
+    this.deviceOptions = devices;
     this.log.debug('Finished initializing platform.');
 
-    const auth = new google.auth.OAuth2(this.config.clientId, this.config.clientSecret);
-
-    auth.setCredentials({
-      refresh_token: this.config.refreshToken,
-    });
+    if (this.config.httpPort) {
+      if (typeof this.config.httpToken === 'string' && this.config.httpToken.length >= 16) {
+        this.httpApi = new GoogleNestHttpApi(this.log, this.api.hap, this.config.httpPort, this.config.httpHost ?? '127.0.0.1',
+          this.config.httpToken);
+      } else {
+        this.log.error('Invalid config: "httpToken" must be set to at least 16 characters, the HTTP API is disabled.');
+      }
+    }
 
-    google.options({ auth });
+    if (this.config.mqttUrl) {
+      this.mqtt = new GoogleNestMqttBridge(this.log, this.config.mqttUrl, {
+        username: this.config.mqttUsername,
+        password: this.config.mqttPassword,
+      }, this.config.mqttTopic ?? 'nest');
+    }
 
     // When this event is fired it means Homebridge has restored all cached accessories from disk.
     // Dynamic Platform plugins should only register new accessories after this event was fired,
@@ -38,11 +115,74 @@ export class GoogleNestPlatform implements DynamicPlatformPlugin {
     // to start discovery of new accessories.
     this.api.on('didFinishLaunching', () => {
       log.debug('Executed didFinishLaunching callback');
-      // run the method to discover / register your devices as accessories
-      this.discoverDevices();
+      this.removeStaleAccountAccessories();
+      this.httpApi?.start();
+      this.mqtt?.start();
+      for (const account of this.accounts) {
+        account.authorization.load().then(authorized => {
+          if (authorized) {
+            this.start(account);
+          } else {
+            account.log.warn('No refresh token configured.');
+            account.authorization.startServer(() => this.start(account));
+          }
+        });
+      }
+
+      // pick up devices added, removed or renamed in the Google Home app
+      this.discoveryTimer = setInterval(() => {
+        for (const account of this.accounts.filter(a => a.started)) {
+          this.discoverDevices(account);
+        }
+      }, seconds(this.intervals.discoveryInterval));
+    });
+
+    this.api.on('shutdown', () => {
+      for (const account of this.accounts) {
+        account.stop();
+      }
+      this.httpApi?.stop();
+      this.mqtt?.stop();
+      if (this.discoveryTimer) {
+        clearInterval(this.discoveryTimer);
+      }
+      // lets the handlers write what they persist, Homebridge waits a few seconds before exiting
+      for (const handler of this.handlers.values()) {
+        handler.dispose();
+      }
     });
   }
 
+  private start(account: GoogleNestAccount) {
+    if (account.started) {
+      return;
+    }
+    account.started = true;
+
+    // run the method to discover / register your devices as accessories
+    this.discoverDevices(account);
+    account.events?.start();
+    if (!account.events) {
+      account.store.start(seconds(this.intervals.pollInterval));
+    }
+  }
+
+  /**
+   * Removes the accessories of accounts no longer configured, accessories are tagged with the name of their account.
+   */
+  private removeStaleAccountAccessories() {
+    if (!this.removesStaleAccounts) {
+      return;
+    }
+
+    const names = this.accounts.map(account => account.name);
+    for (const accessory of this.accessories.slice()) {
+      if (!names.includes(accessory.context.account)) {
+        this.removeAccessory(accessory);
+      }
+    }
+  }
+
   /**
    * This function is invoked when homebridge restores cached accessories from disk at startup.
    * It should be used to setup event handlers for characteristics and update respective values.
@@ -52,86 +192,193 @@ export class GoogleNestPlatform implements DynamicPlatformPlugin {
 
     // add the restored accessory to the accessories cache so we can track if it has already been registered
     this.accessories.push(accessory);
-    this.cached = true;
   }
 
-  discoverDevice(
-    device: smartdevicemanagement_v1.Schema$GoogleHomeEnterpriseSdmV1Device,
-    gapi: smartdevicemanagement_v1.Smartdevicemanagement,
-  ) {
+  /**
+   * Returns the options configured for the device of the accessory.
+   */
+  getDeviceOptions(accessory: PlatformAccessory): GoogleNestDeviceOptions {
+    return findDeviceOptions(this.deviceOptions, accessory.context.name, accessory.context.displayName);
+  }
+
+  private removeAccessory(accessory: PlatformAccessory) {
+    this.log.info('Removing existing accessory from cache:', accessory.displayName);
+    this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    GoogleNestTraitCache.remove(this.log, accountStoragePath(this.storagePath, accessory.context.account), accessory.context.name);
+    this.accessories.splice(this.accessories.indexOf(accessory), 1);
+    this.handlers.get(accessory.UUID)?.dispose();
+    this.handlers.delete(accessory.UUID);
+  }
+
+  /**
+   * Keeps the accessory name in sync with the name or else the room name set in the Google Home app, unless
+   * overridden in the config, and the device info stored in the context up to date.
+   */
+  private updateAccessory(accessory: PlatformAccessory, roomName: string, info: GoogleNestDeviceInfo) {
+    const previousRoomName = accessory.context.displayName;
+    const previousInfo = JSON.stringify(accessory.context.info);
+    accessory.context.displayName = roomName;
+    accessory.context.info = info;
+    setAccessoryInformation(accessory, this.Service, this.Characteristic, info);
+
+    const displayName = this.getDeviceOptions(accessory).displayName ?? info.customName ?? roomName;
+    if (accessory.displayName !== displayName) {
+      this.log.info('Renaming accessory', accessory.displayName, 'to', displayName);
+      accessory.displayName = displayName;
+      accessory.getService(this.Service.AccessoryInformation)?.updateCharacteristic(this.Characteristic.Name, displayName);
+    } else if (previousRoomName === roomName && previousInfo === JSON.stringify(info)) {
+      return;
+    }
+
+    this.api.updatePlatformAccessories([accessory]);
+  }
+
+  discoverDevice(account: GoogleNestAccount, device: Device) {
     if (typeof device.name !== 'string') {
       return;
     }
 
-    const uuid = this.api.hap.uuid.generate(device.name);
+    const uuid = this.api.hap.uuid.generate(account.accessorySeed(device.name));
     const existingAccessory = this.accessories.find(accessory => accessory.UUID === uuid);
 
+    if (!this.isSupported(device)) {
+      account.log.info('Skipping device ' + device.name + ' of unsupported type:', device.type);
+      if (existingAccessory) {
+        // earlier versions registered every device as a thermostat
+        this.removeAccessory(existingAccessory);
+      }
+      return;
+    }
+
+    const displayName = deviceDisplayName(device);
+
+    const options = findDeviceOptions(this.deviceOptions, device.name, displayName);
+    if (options.hidden) {
+      account.log.info('Skipping hidden device:', displayName);
+      if (existingAccessory) {
+        this.removeAccessory(existingAccessory);
+      }
+      return;
+    }
+
     if (existingAccessory) {
-      // the accessory already exists
-      this.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
+      this.updateAccessory(existingAccessory, displayName, deviceInfo(device));
+      if (this.handlers.has(uuid)) {
+        // already set up by an earlier discovery pass
+        return;
+      }
 
-      // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-      // existingAccessory.context.device = device;
-      // this.api.updatePlatformAccessories([existingAccessory]);
+      // the accessory already exists
+      account.log.info('Restoring existing accessory from cache:', existingAccessory.displayName);
 
       // create the accessory handler for the restored accessory
-      // this is imported from `platformAccessory.ts`
-      new GoogleNestThermostatHandler(this, existingAccessory, gapi);
+      this.createHandler(existingAccessory, account, device);
       return;
     }
 
+    // the name given in the Google Home app tells devices in the same room apart
+    const info = deviceInfo(device);
+    const accessoryName = options.displayName ?? info.customName ?? displayName;
+
     // the accessory does not yet exist, so we need to create it
-    let [{ displayName }] = device.parentRelations ?? [];
-    if (!displayName) {
-      displayName = 'Device ' + device.name.slice(-6);
-    }
-    this.log.info('Adding new accessory:', displayName);
+    account.log.info('Adding new accessory:', accessoryName);
 
     // create a new accessory
-    const accessory = new this.api.platformAccessory(displayName, uuid);
+    const accessory = new this.api.platformAccessory(accessoryName, uuid, this.deviceCategory(device));
 
     // store a copy of the device object in the `accessory.context`
     // the `context` property can be used to store any data about the accessory you may need
     accessory.context.displayName = displayName;
     accessory.context.name = device.name;
+    accessory.context.info = info;
+    accessory.context.account = account.name;
 
     // create the accessory handler for the newly create accessory
-    // this is imported from `platformAccessory.ts`
-    new GoogleNestThermostatHandler(this, accessory, gapi);
+    this.createHandler(accessory, account, device);
 
     // link the accessory to your platform
     this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
+    this.accessories.push(accessory);
+  }
+
+  private isSupported(device: Device) {
+    switch (device.type) {
+      case 'sdm.devices.types.THERMOSTAT':
+      case 'sdm.devices.types.CAMERA':
+      case 'sdm.devices.types.DOORBELL':
+      case 'sdm.devices.types.DISPLAY':
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  private deviceCategory(device: Device) {
+    switch (device.type) {
+      case 'sdm.devices.types.THERMOSTAT':
+        return this.api.hap.Categories.THERMOSTAT;
+      case 'sdm.devices.types.DOORBELL':
+        return this.api.hap.Categories.VIDEO_DOORBELL;
+      default:
+        return this.api.hap.Categories.CAMERA;
+    }
+  }
+
+  private createHandler(accessory: PlatformAccessory, account: GoogleNestAccount, device: Device, updatedAt = Date.now()) {
+    if (device.type === 'sdm.devices.types.THERMOSTAT') {
+      this.handlers.set(accessory.UUID, new GoogleNestThermostatHandler(this, accessory, account, device, updatedAt));
+    } else {
+      this.handlers.set(accessory.UUID, new GoogleNestCameraHandler(this, accessory, account, device));
+    }
+  }
+
+  /**
+   * Sets up the thermostats of cached accessories with the state stored before the restart, while the devices
+   * can't be listed.
+   */
+  private async restoreAccessories(account: GoogleNestAccount) {
+    for (const accessory of this.accessories.filter(a => a.context.account === account.name && !this.handlers.has(a.UUID))) {
+      const stored = await GoogleNestTraitCache.load(account.log, account.storagePath, accessory.context.name);
+      if (!stored || stored.device.type !== 'sdm.devices.types.THERMOSTAT' || Date.now() - stored.updatedAt > this.maxStaleness
+        || this.handlers.has(accessory.UUID)) {
+        continue;
+      }
+
+      account.log.info('Restoring', accessory.displayName, 'with its state stored',
+        Math.round((Date.now() - stored.updatedAt) / seconds(60)), 'minutes ago.');
+      this.createHandler(accessory, account, stored.device, stored.updatedAt);
+    }
   }
 
   /**
-   * This is an example method showing how to register discovered accessories.
+   * Registers accessories for new devices and unregisters the ones of removed devices.
    * Accessories must only be registered once, previously created accessories
    * must not be registered again to prevent "duplicate UUID" errors.
    */
-  discoverDevices() {
-    const sdm = google.smartdevicemanagement({
-      'version': 'v1',
-    });
-    this.log.info('Discovering GoogleNest devices.');
-    sdm.enterprises.devices.list({
-      parent: 'enterprises/' + this.config.projectId,
-    }).then(res => {
-      if (res.data.nextPageToken) {
-        this.log.error('[discoverDevices] Ignored next page token.');
-      }
+  async discoverDevices(account: GoogleNestAccount) {
+    account.log.info('Discovering GoogleNest devices.');
 
-      if (this.cached) {
-        for (const accessory of this.accessories) {
-          if (!res.data.devices?.map(d => d.name).includes(accessory.context.name)) {
-            this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [accessory]);
-            this.log.info('Removing existing accessory from cache:', accessory.displayName);
-          }
-        }
+    let devices: Device[];
+    try {
+      devices = await account.store.refresh();
+    } catch (e) {
+      // keep the existing accessories around, the devices are most likely still there
+      if (!account.authorization.handleAuthorizationError(e)) {
+        account.log.error('Discovering devices failed:', (e as Error).message);
       }
+      await this.restoreAccessories(account);
+      return;
+    }
 
-      for (const device of res.data.devices ?? []) {
-        this.discoverDevice(device, sdm);
+    const names = devices.map(d => d.name);
+    for (const accessory of this.accessories.filter(a => a.context.account === account.name)) {
+      if (!names.includes(accessory.context.name)) {
+        this.removeAccessory(accessory);
       }
-    });
+    }
+
+    for (const device of devices) {
+      this.discoverDevice(account, device);
+    }
   }
 }
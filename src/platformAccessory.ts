@@ -1,22 +1,40 @@
-import { Service, PlatformAccessory, CharacteristicValue, Logging, Characteristic } from 'homebridge';
-import { smartdevicemanagement_v1 } from 'googleapis';
+import { Service, PlatformAccessory, CharacteristicValue, Logging, Characteristic, WithUUID } from 'homebridge';
 import { GoogleNestPlatform } from './platform';
 import { GoogleNestThermostatApi, GoogleNestThermostatUpdateHandler } from './api';
+import { GoogleNestThermostatCharacteristics } from './characteristics';
+import { GoogleNestDeviceOptions } from './config';
+import { Device } from './client';
+import { GoogleNestAccount } from './account';
+import { GoogleNestHistory } from './history';
+import { GoogleNestPresets } from './presets';
+import { GoogleNestComfort } from './comfort';
+import { GoogleNestPreset } from './config';
+import { fahrenheitToCelsius, setpointRange } from './setpoints';
+import { GoogleNestThermostatCapabilities, thermostatCapabilities } from './capabilities';
+import { deviceInfo, setAccessoryInformation } from './info';
+import { GoogleNestHttpDevice, GoogleNestHttpHandler, GoogleNestHttpSetpoint } from './server';
 
 class CharacresticsUpdateHandler implements GoogleNestThermostatUpdateHandler {
   constructor(
     private readonly service: Service,
     private readonly C: typeof Characteristic,
+    private readonly limits: GoogleNestDeviceOptions['setpointLimits'],
+    private readonly onUpdate: (characteristics: GoogleNestThermostatCharacteristics) => void,
+    private readonly onHealthUpdate: (healthy: boolean) => void,
   ) {}
 
+  onCharacteristics(characteristics: GoogleNestThermostatCharacteristics) {
+    this.onUpdate(characteristics);
+  }
+
+  onHealth(healthy: boolean) {
+    this.onHealthUpdate(healthy);
+  }
+
   onDisplayUnit(unit: 'FAHRENHEIT' | 'CELSIUS') {
     const tempStep = 0.1;
-    const f2c = (temp: number) => {
-      return (temp - 32) / 1.8;
-    };
-    const [minSetTemp, maxSetTemp, minGetTemp, maxGetTemp] =
-      unit === 'FAHRENHEIT' ? [f2c(50), f2c(90), f2c(0), f2c(160)] :
-        [10, 32, -20, 60];
+    const [minGetTemp, maxGetTemp] = unit === 'FAHRENHEIT' ? [fahrenheitToCelsius(0), fahrenheitToCelsius(160)] : [-20, 60];
+    const { min: minSetTemp, max: maxSetTemp } = setpointRange(unit, this.limits);
     this.service.getCharacteristic(this.C.CurrentTemperature).setProps({
       minStep: tempStep,
       minValue: minGetTemp,
@@ -27,16 +45,16 @@ class CharacresticsUpdateHandler implements GoogleNestThermostatUpdateHandler {
       minValue: minSetTemp,
       maxValue: maxSetTemp,
     });
-    this.service.getCharacteristic(this.C.CoolingThresholdTemperature).setProps({
-      minStep: tempStep,
-      minValue: minSetTemp,
-      maxValue: maxSetTemp,
-    });
-    this.service.getCharacteristic(this.C.HeatingThresholdTemperature).setProps({
-      minStep: tempStep,
-      minValue: minSetTemp,
-      maxValue: maxSetTemp,
-    });
+    // the thresholds are only present on thermostats supporting HEATCOOL
+    for (const threshold of [this.C.CoolingThresholdTemperature, this.C.HeatingThresholdTemperature]) {
+      if (this.service.testCharacteristic(threshold)) {
+        this.service.getCharacteristic(threshold).setProps({
+          minStep: tempStep,
+          minValue: minSetTemp,
+          maxValue: maxSetTemp,
+        });
+      }
+    }
   }
 }
 
@@ -45,38 +63,77 @@ class CharacresticsUpdateHandler implements GoogleNestThermostatUpdateHandler {
  * An instance of this class is created for each accessory your platform registers
  * Each accessory may expose multiple services of different service types.
  */
-export class GoogleNestThermostatHandler {
+export class GoogleNestThermostatHandler implements GoogleNestHttpHandler {
   private api: GoogleNestThermostatApi;
-  private log: Logging = this.platform.log;
+  private log: Logging = this.account.log;
   private C = this.platform.Characteristic;
 
   private service: Service =
     this.accessory.getService(this.platform.Service.Thermostat)
     || this.accessory.addService(this.platform.Service.Thermostat);
 
-  private ecoService: Service =
-    this.accessory.getService('Eco Mode')
-    || this.accessory.addService(this.platform.Service.Switch, 'Eco Mode', 'eco_mode_0');
+  private options = this.platform.getDeviceOptions(this.accessory);
+  private capabilities: GoogleNestThermostatCapabilities;
+
+  private modeToValue = {
+    'OFF': this.C.TargetHeatingCoolingState.OFF,
+    'HEAT': this.C.TargetHeatingCoolingState.HEAT,
+    'COOL': this.C.TargetHeatingCoolingState.COOL,
+    'HEATCOOL': this.C.TargetHeatingCoolingState.AUTO,
+  };
+
+  private ecoService?: Service;
+  private humidityService?: Service;
+  private temperatureService?: Service;
+  private offlineService?: Service;
+
+  // only present for thermostats reporting the Fan trait
+  private fanService?: Service;
+  private fanDuration: number = this.platform.config.fanDuration ?? 900;
+
+  private history?: GoogleNestHistory;
+
+  private presets: GoogleNestPresets;
+  private presetServices = new Map<string, Service>();
+
+  // only present when comfort rules are configured and the thermostat reports the humidity
+  private comfort?: GoogleNestComfort;
+  private comfortService?: Service;
 
   constructor(
     private readonly platform: GoogleNestPlatform,
     private readonly accessory: PlatformAccessory,
-    gapi: smartdevicemanagement_v1.Smartdevicemanagement,
+    private readonly account: GoogleNestAccount,
+    device: Device,
+    // when the state of the device was current, it is older for a state stored before a restart
+    updatedAt: number,
   ) {
-    this.api = new GoogleNestThermostatApi(this.platform, this.accessory, gapi, new CharacresticsUpdateHandler(this.service, this.C));
+    this.capabilities = thermostatCapabilities(device);
+    this.api = new GoogleNestThermostatApi(this.platform, this.accessory, this.account,
+      new CharacresticsUpdateHandler(this.service, this.C, this.options.setpointLimits,
+        this.updateCharacteristics.bind(this), this.updateHealth.bind(this)));
+
+    // keep HomeKit in sync with changes made outside of HomeKit, the platform polls all devices without events
+    this.account.store.register(this.accessory.context.name, this.api);
+    this.account.events?.subscribe(this.accessory.context.name, this.api);
+    this.platform.httpApi?.register(this.accessory.context.name, this);
+    this.platform.mqtt?.register(this.accessory.context.name, this.api);
 
     // set accessory information
-    this.accessory.getService(this.platform.Service.AccessoryInformation)!
-      .setCharacteristic(this.C.Manufacturer, 'Google Nest')
-      .setCharacteristic(this.C.Model, 'Thermostat')
-      .setCharacteristic(this.C.SerialNumber, 'Unknown');
+    setAccessoryInformation(this.accessory, this.platform.Service, this.C, deviceInfo(device));
 
     this.service.getCharacteristic(this.C.TargetHeatingCoolingState).setProps({
-      validValues: [
-        this.C.TargetHeatingCoolingState.OFF, this.C.TargetHeatingCoolingState.HEAT,
-        this.C.TargetHeatingCoolingState.COOL, this.C.TargetHeatingCoolingState.AUTO],
+      validValues: this.capabilities.modes.map(mode => this.modeToValue[mode]),
     });
 
+    // drop what cached accessories expose for traits this device lacks
+    const removeCharacteristic = (service: Service, characteristic: WithUUID<new () => Characteristic>) => {
+      const existing = service.characteristics.find(c => c.UUID === characteristic.UUID);
+      if (existing) {
+        service.removeCharacteristic(existing);
+      }
+    };
+
     // create handlers for required characteristics
     this.service.getCharacteristic(this.C.CurrentHeatingCoolingState)
       .onGet(this.handleCurrentHeatingCoolingStateGet.bind(this));
@@ -96,27 +153,285 @@ export class GoogleNestThermostatHandler {
       .onGet(this.handleTemperatureDisplayUnitsGet.bind(this))
       .onSet(this.handleTemperatureDisplayUnitsSet.bind(this));
 
-    this.service.getCharacteristic(this.C.CoolingThresholdTemperature)
-      .onGet(this.handleCoolingThresholdTemperatureGet.bind(this))
-      .onSet(this.handleCoolingThresholdTemperatureSet.bind(this));
+    if (this.capabilities.range) {
+      this.service.getCharacteristic(this.C.CoolingThresholdTemperature)
+        .onGet(this.handleCoolingThresholdTemperatureGet.bind(this))
+        .onSet(this.handleCoolingThresholdTemperatureSet.bind(this));
 
-    this.service.getCharacteristic(this.C.HeatingThresholdTemperature)
-      .onGet(this.handleHeatingThresholdTemperatureGet.bind(this))
-      .onSet(this.handleHeatingThresholdTemperatureSet.bind(this));
+      this.service.getCharacteristic(this.C.HeatingThresholdTemperature)
+        .onGet(this.handleHeatingThresholdTemperatureGet.bind(this))
+        .onSet(this.handleHeatingThresholdTemperatureSet.bind(this));
+    } else {
+      removeCharacteristic(this.service, this.C.CoolingThresholdTemperature);
+      removeCharacteristic(this.service, this.C.HeatingThresholdTemperature);
+    }
 
-    this.service.getCharacteristic(this.C.CurrentRelativeHumidity)
-      .onGet(this.handleCurrentRelativeHumidityGet.bind(this));
+    if (this.capabilities.humidity) {
+      this.service.getCharacteristic(this.C.CurrentRelativeHumidity)
+        .onGet(this.handleCurrentRelativeHumidityGet.bind(this));
+    } else {
+      removeCharacteristic(this.service, this.C.CurrentRelativeHumidity);
+    }
 
     this.service.getCharacteristic(this.C.Name)
       .onGet(this.handleNameGet.bind(this));
 
-    this.ecoService.getCharacteristic(this.C.On)
-      .onGet(this.handleEcoSwitchGet.bind(this))
-      .onSet(this.handleEcoSwitchSet.bind(this));
+    // not part of the thermostat service as defined by HAP, declared to be accepted without warnings
+    this.service.addOptionalCharacteristic(this.C.StatusActive);
+    this.service.getCharacteristic(this.C.StatusActive)
+      .onGet(this.handleStatusActiveGet.bind(this));
+
+    this.service.addOptionalCharacteristic(this.C.StatusFault);
+    this.service.getCharacteristic(this.C.StatusFault)
+      .onGet(this.handleStatusFaultGet.bind(this));
+
+    const offlineService = this.accessory.getServiceById(this.platform.Service.ContactSensor, 'offline_0');
+    if (this.options.exposeOfflineSensor) {
+      this.offlineService = offlineService || this.accessory.addService(this.platform.Service.ContactSensor, 'Nest Offline', 'offline_0');
+
+      this.offlineService.getCharacteristic(this.C.ContactSensorState)
+        .onGet(this.handleOfflineSensorGet.bind(this));
+    } else if (offlineService) {
+      this.accessory.removeService(offlineService);
+    }
+
+    this.presets = new GoogleNestPresets(this.log, this.accessory.displayName, this.api, this.platform.presets,
+      this.options.schedule ?? this.platform.schedule, () => this.comfort?.getOffset() ?? 0);
+    for (const service of this.accessory.services.filter(s => s.subtype?.startsWith('preset_'))) {
+      if (!this.platform.presets.some(preset => service.subtype === 'preset_' + preset.name)) {
+        this.accessory.removeService(service);
+      }
+    }
+    for (const preset of this.platform.presets) {
+      const subtype = 'preset_' + preset.name;
+      const service = this.accessory.getServiceById(this.platform.Service.Switch, subtype)
+        || this.accessory.addService(this.platform.Service.Switch, preset.name, subtype);
+      this.presetServices.set(preset.name, service);
+
+      service.getCharacteristic(this.C.On)
+        .onGet(() => this.handlePresetGet(preset))
+        .onSet(value => this.handlePresetSet(preset, value));
+    }
+
+    const ecoService = this.accessory.getService('Eco Mode');
+    if (this.capabilities.eco && (this.options.exposeEcoSwitch ?? true)) {
+      this.ecoService = ecoService || this.accessory.addService(this.platform.Service.Switch, 'Eco Mode', 'eco_mode_0');
+
+      this.ecoService.getCharacteristic(this.C.On)
+        .onGet(this.handleEcoSwitchGet.bind(this))
+        .onSet(this.handleEcoSwitchSet.bind(this));
+
+      // read-only view of the range the thermostat holds to in eco mode
+      for (const [characteristic, handler] of [
+        [this.C.HeatingThresholdTemperature, this.handleEcoHeatingThresholdGet],
+        [this.C.CoolingThresholdTemperature, this.handleEcoCoolingThresholdGet],
+      ] as const) {
+        this.ecoService.addOptionalCharacteristic(characteristic);
+        this.ecoService.getCharacteristic(characteristic)
+          .setProps({ perms: [this.platform.api.hap.Perms.PAIRED_READ, this.platform.api.hap.Perms.NOTIFY] })
+          .onGet(handler.bind(this));
+      }
+    } else if (ecoService) {
+      this.accessory.removeService(ecoService);
+    }
+
+    // standalone sensors can be used as automation conditions, which the thermostat's readings can't
+    const temperatureService = this.accessory.getServiceById(this.platform.Service.TemperatureSensor, 'temperature_0');
+    if (this.options.exposeTemperatureSensor ?? this.platform.config.exposeTemperatureSensor) {
+      this.temperatureService = temperatureService
+        || this.accessory.addService(this.platform.Service.TemperatureSensor, 'Temperature', 'temperature_0');
+      this.service.addLinkedService(this.temperatureService);
+
+      this.temperatureService.getCharacteristic(this.C.CurrentTemperature)
+        .setProps({ minStep: 0.1, minValue: -20, maxValue: 60 })
+        .onGet(this.handleCurrentTemperatureGet.bind(this));
+    } else if (temperatureService) {
+      this.accessory.removeService(temperatureService);
+    }
+
+    const humidityService = this.accessory.getServiceById(this.platform.Service.HumiditySensor, 'humidity_0');
+    if (this.capabilities.humidity && (this.options.exposeHumiditySensor ?? this.platform.config.exposeHumiditySensor)) {
+      this.humidityService = humidityService || this.accessory.addService(this.platform.Service.HumiditySensor, 'Humidity', 'humidity_0');
+      this.service.addLinkedService(this.humidityService);
+
+      this.humidityService.getCharacteristic(this.C.CurrentRelativeHumidity)
+        .onGet(this.handleCurrentRelativeHumidityGet.bind(this));
+    } else if (humidityService) {
+      this.accessory.removeService(humidityService);
+    }
+
+    const fanService = this.accessory.getServiceById(this.platform.Service.Fanv2, 'fan_0');
+    if (this.capabilities.fan) {
+      this.fanService = fanService || this.accessory.addService(this.platform.Service.Fanv2, 'Fan', 'fan_0');
+
+      this.fanService.getCharacteristic(this.C.Active)
+        .onGet(this.handleFanActiveGet.bind(this))
+        .onSet(this.handleFanActiveSet.bind(this));
+
+      // Nest accepts fan timers of up to 12 hours
+      this.fanService.addOptionalCharacteristic(this.C.RemainingDuration);
+      this.fanService.getCharacteristic(this.C.RemainingDuration)
+        .setProps({ maxValue: 43200 })
+        .onGet(this.handleFanRemainingDurationGet.bind(this));
+    } else if (fanService) {
+      this.accessory.removeService(fanService);
+    }
+
+    const comfortService = this.accessory.getServiceById(this.platform.Service.Switch, 'comfort_0');
+    if (this.platform.comfort && this.capabilities.humidity) {
+      this.comfort = new GoogleNestComfort(this.log, this.platform.api, this.accessory, this.api, this.platform.comfort);
+      this.comfortService = comfortService || this.accessory.addService(this.platform.Service.Switch, 'Comfort Control', 'comfort_0');
+
+      this.comfortService.getCharacteristic(this.C.On)
+        .onGet(this.handleComfortSwitchGet.bind(this))
+        .onSet(this.handleComfortSwitchSet.bind(this));
+    } else {
+      GoogleNestComfort.clear(this.accessory);
+      if (comfortService) {
+        this.accessory.removeService(comfortService);
+      }
+    }
+
+    const historyDays: number = this.platform.config.historyDays ?? 7;
+    if (historyDays > 0) {
+      this.history = new GoogleNestHistory(this.log, this.platform.api, this.accessory, this.account.storagePath, historyDays);
+    } else {
+      GoogleNestHistory.removeService(this.accessory);
+    }
+
+    // the device was just listed by the discovery, no need to fetch it again
+    this.api.onDevice(device, updatedAt);
+  }
+
+  /**
+   * Stops refreshing the device, called once the accessory is removed or Homebridge shuts down.
+   */
+  dispose() {
+    this.account.events?.unsubscribe(this.accessory.context.name);
+    this.account.store.unregister(this.accessory.context.name);
+    this.platform.httpApi?.unregister(this.accessory.context.name);
+    this.platform.mqtt?.unregister(this.accessory.context.name);
+    this.history?.dispose();
+    this.presets.dispose();
+    this.comfort?.dispose();
+    this.api.dispose();
+  }
+
+  describe(): GoogleNestHttpDevice {
+    return {
+      id: this.accessory.context.name.split('/').pop(),
+      name: this.accessory.context.name,
+      displayName: this.accessory.displayName,
+      info: this.accessory.context.info,
+      online: this.api.isHealthy(),
+      traits: this.api.getTraits(),
+      updatedAt: this.api.getUpdatedAt(),
+    };
+  }
+
+  // commands of the HTTP API go through the HomeKit setters to be checked the same way
+
+  async setMode(mode: 'HEAT' | 'COOL' | 'HEATCOOL' | 'OFF') {
+    await this.handleTargetHeatingCoolingStateSet(this.modeToValue[mode]);
+  }
+
+  async setSetpoint(setpoint: GoogleNestHttpSetpoint) {
+    if (setpoint.celsius !== undefined) {
+      await this.handleTargetTemperatureSet(setpoint.celsius);
+    } else if (setpoint.heatCelsius !== undefined && setpoint.coolCelsius !== undefined) {
+      const characteristics = await this.api.fetch();
+      if (characteristics.isEcoActive() || characteristics.getTargetMode() !== 'HEATCOOL') {
+        throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+      }
+      await this.api.executeCommand('sdm.devices.commands.ThermostatTemperatureSetpoint.SetRange', {
+        heatCelsius: setpoint.heatCelsius,
+        coolCelsius: setpoint.coolCelsius,
+      });
+    } else if (setpoint.heatCelsius !== undefined) {
+      await this.handleHeatingThresholdTemperatureSet(setpoint.heatCelsius);
+    } else if (setpoint.coolCelsius !== undefined) {
+      await this.handleCoolingThresholdTemperatureSet(setpoint.coolCelsius);
+    }
+  }
+
+  async setEco(enabled: boolean) {
+    if (!this.capabilities.eco) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    }
+    await this.handleEcoSwitchSet(enabled);
+  }
+
+  async setFan(active: boolean) {
+    if (!this.capabilities.fan) {
+      throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
+    }
+    await this.handleFanActiveSet(active ? this.C.Active.ACTIVE : this.C.Active.INACTIVE);
+  }
+
+  /**
+   * Pushes the availability of the device to HomeKit.
+   */
+  private updateHealth() {
+    this.service.updateCharacteristic(this.C.StatusActive, this.statusActive());
+    this.service.updateCharacteristic(this.C.StatusFault, this.statusFault());
+    this.offlineService?.updateCharacteristic(this.C.ContactSensorState, this.offlineSensor());
+  }
+
+  /**
+   * Pushes the latest device state to HomeKit.
+   */
+  private updateCharacteristics(characteristics: GoogleNestThermostatCharacteristics) {
+    const update = (service: Service, characteristic: WithUUID<new () => Characteristic>,
+      getter: (characteristics: GoogleNestThermostatCharacteristics) => CharacteristicValue) => {
+      try {
+        service.updateCharacteristic(characteristic, getter.call(this, characteristics));
+      } catch (e) {
+        this.log.debug('Skipped update of', characteristic.name, 'for', this.accessory.displayName);
+      }
+    };
+
+    update(this.service, this.C.CurrentHeatingCoolingState, this.currentHeatingCoolingState);
+    update(this.service, this.C.TargetHeatingCoolingState, this.targetHeatingCoolingState);
+    update(this.service, this.C.CurrentTemperature, this.currentTemperature);
+    update(this.service, this.C.TargetTemperature, this.targetTemperature);
+    update(this.service, this.C.TemperatureDisplayUnits, this.temperatureDisplayUnits);
+    if (this.capabilities.range) {
+      update(this.service, this.C.CoolingThresholdTemperature, this.coolingThresholdTemperature);
+      update(this.service, this.C.HeatingThresholdTemperature, this.heatingThresholdTemperature);
+    }
+    if (this.capabilities.humidity) {
+      update(this.service, this.C.CurrentRelativeHumidity, this.currentRelativeHumidity);
+    }
+    if (this.ecoService) {
+      update(this.ecoService, this.C.On, this.ecoSwitch);
+      update(this.ecoService, this.C.HeatingThresholdTemperature, this.ecoHeatingThreshold);
+      update(this.ecoService, this.C.CoolingThresholdTemperature, this.ecoCoolingThreshold);
+    }
+    if (this.temperatureService) {
+      update(this.temperatureService, this.C.CurrentTemperature, this.currentTemperature);
+    }
+    if (this.humidityService) {
+      update(this.humidityService, this.C.CurrentRelativeHumidity, this.currentRelativeHumidity);
+    }
+    if (this.fanService) {
+      update(this.fanService, this.C.Active, this.fanActive);
+      update(this.fanService, this.C.RemainingDuration, this.fanRemainingDuration);
+    }
+
+    for (const preset of this.presets.presets) {
+      update(this.presetServices.get(preset.name)!, this.C.On, c => this.presets.matches(preset, c));
+    }
+    this.presets.onCharacteristics(characteristics);
+    this.comfort?.onCharacteristics(characteristics);
+
+    this.history?.record(characteristics);
   }
 
   async handleCurrentHeatingCoolingStateGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
+    return this.currentHeatingCoolingState(await this.api.fetch());
+  }
+
+  private currentHeatingCoolingState(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
     const status = characteristics.getHvacStatus();
     if (status === 'HEATING') {
       return this.platform.Characteristic.CurrentHeatingCoolingState.HEAT;
@@ -128,7 +443,10 @@ export class GoogleNestThermostatHandler {
   }
 
   async handleTargetHeatingCoolingStateGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
+    return this.targetHeatingCoolingState(await this.api.fetch());
+  }
+
+  private targetHeatingCoolingState(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
     const targetMode = characteristics.getTargetMode();
     if (targetMode === 'HEAT') {
       return this.platform.Characteristic.TargetHeatingCoolingState.HEAT;
@@ -145,7 +463,7 @@ export class GoogleNestThermostatHandler {
     this.log.info('Triggered SET TargetHeatingCoolingState:', value);
     const characteristics = await this.api.fetch();
 
-    if (characteristics.getEcoMode() === 'MANUAL_ECO') {
+    if (characteristics.isEcoActive()) {
       throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
     }
 
@@ -174,20 +492,27 @@ export class GoogleNestThermostatHandler {
   }
 
   async handleCurrentTemperatureGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
+    return this.currentTemperature(await this.api.fetch());
+  }
+
+  private currentTemperature(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
     return characteristics.getCurrentTemperature();
   }
 
   async handleTargetTemperatureGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
+    return this.targetTemperature(await this.api.fetch());
+  }
 
-    const setpoint = characteristics.getTemperatureSetpoint();
+  private targetTemperature(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
+    const setpoint = characteristics.getActiveTemperatureSetpoint();
     const heat = setpoint['heatCelsius'];
     const cool = setpoint['coolCelsius'];
+    // the eco range carries both bounds whatever the mode
+    const mode = characteristics.getTargetMode();
 
-    if (heat && !cool) {
+    if (heat !== undefined && (cool === undefined || mode === 'HEAT')) {
       return heat;
-    } else if (!heat && cool) {
+    } else if (cool !== undefined && (heat === undefined || mode === 'COOL')) {
       return cool;
     } else {
       return characteristics.getCurrentTemperature();
@@ -211,8 +536,10 @@ export class GoogleNestThermostatHandler {
   }
 
   async handleTemperatureDisplayUnitsGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
+    return this.temperatureDisplayUnits(await this.api.fetch());
+  }
 
+  private temperatureDisplayUnits(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
     const displayUnit = characteristics.getDisplayUnit();
     if (displayUnit === 'FAHRENHEIT') {
       return this.platform.Characteristic.TemperatureDisplayUnits.FAHRENHEIT;
@@ -227,21 +554,19 @@ export class GoogleNestThermostatHandler {
   }
 
   async handleCoolingThresholdTemperatureGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
-
-    const setpoint = characteristics.getTemperatureSetpoint();
-    if (!setpoint.coolCelsius) {
-      return setpoint.heatCelsius || characteristics.getCurrentTemperature();
-    }
+    return this.coolingThresholdTemperature(await this.api.fetch());
+  }
 
-    return setpoint.coolCelsius;
+  private coolingThresholdTemperature(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
+    const setpoint = characteristics.getActiveTemperatureSetpoint();
+    return setpoint.coolCelsius ?? setpoint.heatCelsius ?? characteristics.getCurrentTemperature();
   }
 
   async handleCoolingThresholdTemperatureSet(value: CharacteristicValue) {
     this.log.info('Triggered SET CoolingThresholdTemperature:', value);
     const characteristics = await this.api.fetch();
 
-    if (characteristics.getEcoMode() === 'MANUAL_ECO') {
+    if (characteristics.isEcoActive()) {
       throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
     }
 
@@ -263,21 +588,19 @@ export class GoogleNestThermostatHandler {
   }
 
   async handleHeatingThresholdTemperatureGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
-
-    const setpoint = characteristics.getTemperatureSetpoint();
-    if (!setpoint.heatCelsius) {
-      return setpoint.coolCelsius || characteristics.getCurrentTemperature();
-    }
+    return this.heatingThresholdTemperature(await this.api.fetch());
+  }
 
-    return setpoint.heatCelsius;
+  private heatingThresholdTemperature(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
+    const setpoint = characteristics.getActiveTemperatureSetpoint();
+    return setpoint.heatCelsius ?? setpoint.coolCelsius ?? characteristics.getCurrentTemperature();
   }
 
   async handleHeatingThresholdTemperatureSet(value: CharacteristicValue) {
     this.log.info('Triggered SET HeatingThresholdTemperature:', value);
     const characteristics = await this.api.fetch();
 
-    if (characteristics.getEcoMode() === 'MANUAL_ECO') {
+    if (characteristics.isEcoActive()) {
       throw new this.platform.api.hap.HapStatusError(this.platform.api.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE);
     }
 
@@ -298,11 +621,57 @@ export class GoogleNestThermostatHandler {
     }
   }
 
+  async handlePresetGet(preset: GoogleNestPreset): Promise<CharacteristicValue> {
+    return this.presets.matches(preset, await this.api.fetch());
+  }
+
+  /**
+   * Applies the preset when switched on, switching it off leaves the thermostat as it is.
+   */
+  async handlePresetSet(preset: GoogleNestPreset, value: CharacteristicValue) {
+    this.log.info('Triggered SET Preset', preset.name + ':', value);
+    if (value) {
+      await this.presets.apply(preset);
+    } else {
+      // the switch shows whether the thermostat is set to the preset, turn it back on once HomeKit took the write
+      const matches = this.presets.matches(preset, await this.api.fetch());
+      setTimeout(() => this.presetServices.get(preset.name)!.updateCharacteristic(this.C.On, matches), 100);
+    }
+  }
+
+  async handleComfortSwitchGet(): Promise<CharacteristicValue> {
+    return this.comfort!.isEnabled();
+  }
+
+  async handleComfortSwitchSet(value: CharacteristicValue) {
+    this.log.info('Triggered SET ComfortSwitch:', value);
+    this.comfort!.setEnabled(!!value);
+  }
+
   async handleEcoSwitchGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
+    return this.ecoSwitch(await this.api.fetch());
+  }
+
+  private ecoSwitch(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
     return characteristics.getEcoMode() === 'MANUAL_ECO';
   }
 
+  async handleEcoHeatingThresholdGet(): Promise<CharacteristicValue> {
+    return this.ecoHeatingThreshold(await this.api.fetch());
+  }
+
+  private ecoHeatingThreshold(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
+    return characteristics.getEcoTemperatureSetpoint().heatCelsius ?? characteristics.getCurrentTemperature();
+  }
+
+  async handleEcoCoolingThresholdGet(): Promise<CharacteristicValue> {
+    return this.ecoCoolingThreshold(await this.api.fetch());
+  }
+
+  private ecoCoolingThreshold(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
+    return characteristics.getEcoTemperatureSetpoint().coolCelsius ?? characteristics.getCurrentTemperature();
+  }
+
   async handleEcoSwitchSet(value: CharacteristicValue) {
     this.log.info('Triggered SET EchoSwtich:', value);
     await this.api.executeCommand('sdm.devices.commands.ThermostatEco.SetMode', {
@@ -311,10 +680,74 @@ export class GoogleNestThermostatHandler {
   }
 
   async handleCurrentRelativeHumidityGet(): Promise<CharacteristicValue> {
-    const characteristics = await this.api.fetch();
+    return this.currentRelativeHumidity(await this.api.fetch());
+  }
+
+  private currentRelativeHumidity(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
     return characteristics.getRelativeHumidity();
   }
 
+  async handleFanActiveGet(): Promise<CharacteristicValue> {
+    return this.fanActive(await this.api.fetch());
+  }
+
+  private fanActive(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
+    return characteristics.getFanTimerMode() === 'ON' ? this.C.Active.ACTIVE : this.C.Active.INACTIVE;
+  }
+
+  async handleFanActiveSet(value: CharacteristicValue) {
+    this.log.info('Triggered SET FanActive:', value);
+    if (value === this.C.Active.ACTIVE) {
+      await this.api.executeCommand('sdm.devices.commands.Fan.SetTimer', {
+        timerMode: 'ON',
+        duration: this.fanDuration + 's',
+      });
+    } else {
+      await this.api.executeCommand('sdm.devices.commands.Fan.SetTimer', {
+        timerMode: 'OFF',
+      });
+    }
+  }
+
+  async handleFanRemainingDurationGet(): Promise<CharacteristicValue> {
+    return this.fanRemainingDuration(await this.api.fetch());
+  }
+
+  private fanRemainingDuration(characteristics: GoogleNestThermostatCharacteristics): CharacteristicValue {
+    const timeout = characteristics.getFanTimerTimeout();
+    if (characteristics.getFanTimerMode() !== 'ON' || !timeout) {
+      return 0;
+    }
+
+    return Math.min(43200, Math.max(0, Math.round((Date.parse(timeout) - Date.now()) / 1000)));
+  }
+
+  // the status characteristics are answered from the last known state, they must not fail while the device is unavailable
+  async handleStatusActiveGet(): Promise<CharacteristicValue> {
+    return this.statusActive();
+  }
+
+  private statusActive(): CharacteristicValue {
+    return this.api.isHealthy();
+  }
+
+  async handleStatusFaultGet(): Promise<CharacteristicValue> {
+    return this.statusFault();
+  }
+
+  private statusFault(): CharacteristicValue {
+    return this.api.isHealthy() ? this.C.StatusFault.NO_FAULT : this.C.StatusFault.GENERAL_FAULT;
+  }
+
+  async handleOfflineSensorGet(): Promise<CharacteristicValue> {
+    return this.offlineSensor();
+  }
+
+  private offlineSensor(): CharacteristicValue {
+    // open while the thermostat is offline
+    return this.api.isHealthy() ? this.C.ContactSensorState.CONTACT_DETECTED : this.C.ContactSensorState.CONTACT_NOT_DETECTED;
+  }
+
   async handleNameGet(): Promise<CharacteristicValue> {
     return 'Google Nest Thermostat';
   }
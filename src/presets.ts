@@ -0,0 +1,187 @@
+import { Logging } from 'homebridge';
+import { GoogleNestThermostatApi, seconds } from './api';
+import { GoogleNestThermostatCharacteristics } from './characteristics';
+import { GoogleNestPreset, GoogleNestScheduleEntry, weekdays } from './config';
+
+/**
+ * A period of the schedule, from the time its entry applies until the next entry does.
+ */
+type Period = {
+  entry: GoogleNestScheduleEntry;
+  start: number;
+};
+
+const startOfDay = (time: number, offsetDays = 0) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + offsetDays).getTime();
+};
+
+const entryStart = (entry: GoogleNestScheduleEntry, day: number) => {
+  const [hours, minutes] = entry.time.split(':').map(Number);
+  const date = new Date(day);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate(), hours, minutes).getTime();
+};
+
+const appliesOn = (entry: GoogleNestScheduleEntry, day: number) => {
+  return !entry.days?.length || entry.days.includes(weekdays[new Date(day).getDay()]);
+};
+
+const close = (a?: number, b?: number) => {
+  return a !== undefined && b !== undefined && Math.abs(a - b) < 0.3;
+};
+
+/**
+ * Applies presets to a thermostat on request and following a schedule evaluated by the plugin, as the SDM API
+ * gives no access to the schedule of the thermostat. A change made to the thermostat while the schedule holds
+ * a preset pauses the schedule until its next period starts. Setpoints are shifted by the offset of the comfort
+ * control, whose adjustments are not taken for changes.
+ */
+export class GoogleNestPresets {
+  private timer?: NodeJS.Timeout;
+  private period?: Period;
+  private paused = false;
+  // commands of a preset are sent one after the other, the state in between matches no preset
+  private applying = false;
+
+  constructor(
+    private readonly log: Logging,
+    private readonly displayName: string,
+    private readonly api: GoogleNestThermostatApi,
+    readonly presets: GoogleNestPreset[],
+    private readonly schedule: GoogleNestScheduleEntry[],
+    // offset the comfort control currently adds to the setpoints, in degrees Celsius
+    private readonly offset: () => number = () => 0,
+  ) {
+    if (this.schedule.length > 0) {
+      // only the start of a period applies a preset, a restart must not undo changes made during the current one
+      this.period = this.currentPeriod(Date.now());
+      this.paused = true;
+      this.timer = setInterval(() => this.evaluate(), seconds(30));
+    }
+  }
+
+  dispose() {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+  }
+
+  /**
+   * Returns true if the thermostat is set the way the preset sets it.
+   */
+  matches(preset: GoogleNestPreset, characteristics: GoogleNestThermostatCharacteristics) {
+    const traits = characteristics.getRawTraits();
+    if (traits.targetMode !== preset.mode) {
+      return false;
+    }
+    if (preset.eco) {
+      return traits.ecoMode === 'MANUAL_ECO';
+    }
+    if (traits.ecoMode === 'MANUAL_ECO') {
+      return false;
+    }
+
+    const setpoint = traits.temperatureSetpoint ?? {};
+    const { heatCelsius, coolCelsius } = this.setpoints(preset);
+    return (preset.mode !== 'HEAT' && preset.mode !== 'HEATCOOL' || close(setpoint.heatCelsius, heatCelsius))
+      && (preset.mode !== 'COOL' && preset.mode !== 'HEATCOOL' || close(setpoint.coolCelsius, coolCelsius));
+  }
+
+  /**
+   * Returns the setpoints of the preset, shifted by the current comfort offset.
+   */
+  private setpoints(preset: GoogleNestPreset) {
+    const offset = this.offset();
+    return {
+      heatCelsius: preset.heatCelsius === undefined ? undefined : preset.heatCelsius + offset,
+      coolCelsius: preset.coolCelsius === undefined ? undefined : preset.coolCelsius + offset,
+    };
+  }
+
+  /**
+   * Sends the commands setting the thermostat to the preset.
+   */
+  async apply(preset: GoogleNestPreset) {
+    this.log.info('Applying preset', preset.name, 'to', this.displayName);
+    this.applying = true;
+    try {
+      const traits = (await this.api.fetch()).getRawTraits();
+
+      // setpoints can't be changed in eco mode
+      if (traits.ecoMode === 'MANUAL_ECO' && !preset.eco) {
+        await this.api.executeCommand('sdm.devices.commands.ThermostatEco.SetMode', { mode: 'OFF' });
+      }
+      if (traits.targetMode !== preset.mode) {
+        await this.api.executeCommand('sdm.devices.commands.ThermostatMode.SetMode', { mode: preset.mode });
+      }
+
+      const { heatCelsius, coolCelsius } = this.setpoints(preset);
+      if (preset.eco) {
+        await this.api.executeCommand('sdm.devices.commands.ThermostatEco.SetMode', { mode: 'MANUAL_ECO' });
+      } else if (preset.mode === 'HEAT') {
+        await this.api.executeCommand('sdm.devices.commands.ThermostatTemperatureSetpoint.SetHeat', {
+          heatCelsius,
+        });
+      } else if (preset.mode === 'COOL') {
+        await this.api.executeCommand('sdm.devices.commands.ThermostatTemperatureSetpoint.SetCool', {
+          coolCelsius,
+        });
+      } else if (preset.mode === 'HEATCOOL') {
+        await this.api.executeCommand('sdm.devices.commands.ThermostatTemperatureSetpoint.SetRange', {
+          heatCelsius,
+          coolCelsius,
+        });
+      }
+    } finally {
+      this.applying = false;
+    }
+  }
+
+  /**
+   * Pauses the schedule if the thermostat no longer holds the preset of the current period.
+   */
+  onCharacteristics(characteristics: GoogleNestThermostatCharacteristics) {
+    if (!this.period || this.paused || this.applying) {
+      return;
+    }
+
+    const preset = this.presets.find(p => p.name === this.period!.entry.preset);
+    if (preset && !this.matches(preset, characteristics)) {
+      this.paused = true;
+      this.log.info('Schedule of', this.displayName, 'paused after a manual change, it resumes with its next period.');
+    }
+  }
+
+  private evaluate() {
+    const period = this.currentPeriod(Date.now());
+    if (!period || period.start === this.period?.start) {
+      return;
+    }
+
+    this.period = period;
+    this.paused = false;
+    const preset = this.presets.find(p => p.name === period.entry.preset);
+    if (preset) {
+      this.apply(preset).catch(e => this.log.error('Scheduled preset', preset.name, 'for', this.displayName, 'failed:',
+        (e as Error).message));
+    }
+  }
+
+  /**
+   * Finds the entry of the schedule which applied last, looking back up to a week.
+   */
+  private currentPeriod(now: number): Period | undefined {
+    for (let offset = 0; offset >= -7; offset--) {
+      const day = startOfDay(now, offset);
+      const started = this.schedule
+        .filter(entry => appliesOn(entry, day))
+        .map(entry => ({ entry, start: entryStart(entry, day) }))
+        .filter(period => period.start <= now)
+        .sort((a, b) => b.start - a.start);
+      if (started.length > 0) {
+        return started[0];
+      }
+    }
+    return undefined;
+  }
+}
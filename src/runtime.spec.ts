@@ -0,0 +1,74 @@
+import assert from 'assert';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { GoogleNestRuntime } from './runtime';
+import { createLog, waitFor } from './test/harness';
+
+const localDate = (date: Date) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+describe('GoogleNestRuntime', () => {
+  let storagePath: string;
+  const log = createLog();
+  const deviceName = 'enterprises/fake-project/devices/hall';
+
+  const midnight = () => {
+    const now = new Date();
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  };
+  const yesterday = () => localDate(new Date(midnight().getTime() - 1));
+
+  /**
+   * Starts a runtime which has been heating since half an hour before midnight.
+   */
+  const heatingSinceYesterday = async () => {
+    const runtime = new GoogleNestRuntime(log, 'Hall', deviceName, storagePath);
+    await runtime['loaded'];
+    runtime.update('HEATING');
+    runtime['since'] = midnight().getTime() - 30 * 60 * 1000;
+    runtime['today'].date = yesterday();
+    return runtime;
+  };
+
+  beforeEach(() => {
+    storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'homebridge-nest-google-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(storagePath, { recursive: true, force: true });
+  });
+
+  it('splits the runtime at midnight and exports the day that ended', async () => {
+    const runtime = await heatingSinceYesterday();
+
+    const days = runtime.getDays();
+    await runtime.dispose();
+
+    assert.deepStrictEqual(days[0], { date: yesterday(), heatingMinutes: 30, coolingMinutes: 0 });
+    assert.strictEqual(days[1].date, localDate(new Date()));
+    assert.strictEqual(days[1].heatingMinutes, Math.round((Date.now() - midnight().getTime()) / 60000));
+
+    const csv = path.join(storagePath, 'runtime', 'hall.csv');
+    await waitFor(() => fs.existsSync(csv));
+    assert.strictEqual(fs.readFileSync(csv, 'utf8'), `date,heatingMinutes,coolingMinutes\n${yesterday()},30,0\n`);
+  });
+
+  it('keeps the totals across restarts', async () => {
+    const runtime = await heatingSinceYesterday();
+    runtime.getDays();
+    await runtime.dispose();
+
+    const restarted = new GoogleNestRuntime(log, 'Hall', deviceName, storagePath);
+    await restarted['loaded'];
+    const days = restarted.getDays();
+    await restarted.dispose();
+
+    assert.deepStrictEqual(days[0], { date: yesterday(), heatingMinutes: 30, coolingMinutes: 0 });
+    assert.strictEqual(days[1].date, localDate(new Date()));
+    // the status is unknown after a restart, only what was stored counts
+    assert.strictEqual(days[1].heatingMinutes, Math.round((Date.now() - midnight().getTime()) / 60000));
+  });
+});
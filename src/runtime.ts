@@ -0,0 +1,192 @@
+import { Logging } from 'homebridge';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { seconds } from './api';
+import { GoogleNestFileWriter } from './fileWriter';
+
+type HvacStatus = 'COOLING' | 'HEATING' | 'OFF';
+
+/**
+ * Time the HVAC system spent heating and cooling on a day, by local date.
+ */
+export type GoogleNestRuntimeDay = {
+  date: string;
+  heatingMinutes: number;
+  coolingMinutes: number;
+};
+
+type StoredRuntime = {
+  today: { date: string; heating: number; cooling: number };
+  days: GoogleNestRuntimeDay[];
+};
+
+const localDate = (time: number) => {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const nextMidnight = (time: number) => {
+  const date = new Date(time);
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + 1).getTime();
+};
+
+const toMinutes = (ms: number) => {
+  return Math.round(ms / seconds(60));
+};
+
+/**
+ * Accumulates the time a thermostat spends heating and cooling from the HVAC status it reports. Totals are
+ * kept per local day, persisted so they survive restarts, and exported as CSV and JSON once a day is over.
+ */
+export class GoogleNestRuntime {
+  private today = { date: localDate(Date.now()), heating: 0, cooling: 0 };
+  private days: GoogleNestRuntimeDay[] = [];
+  private maxDays = 366;
+
+  // unset while the status is unknown, e.g. after a restart or while the device is offline
+  private status?: HvacStatus;
+  private since = Date.now();
+
+  private loaded: Promise<void>;
+  private writer = new GoogleNestFileWriter(e => this.log.error('Storing the runtime of', this.displayName, 'failed:', e.message));
+  private rolloverTimer?: NodeJS.Timeout;
+
+  private directory = path.join(this.storagePath, 'runtime');
+  private id = this.deviceName.split('/').pop();
+
+  constructor(
+    private readonly log: Logging,
+    private readonly displayName: string,
+    private readonly deviceName: string,
+    private readonly storagePath: string,
+  ) {
+    this.loaded = this.load();
+    this.scheduleRollover();
+  }
+
+  /**
+   * Records the HVAC status reported by the device, undefined if it is not known.
+   */
+  update(status?: HvacStatus) {
+    if (status === this.status) {
+      return;
+    }
+
+    this.accumulate(Date.now());
+    this.status = status;
+    this.save();
+  }
+
+  /**
+   * Returns the totals of the past days followed by the ones of today so far.
+   */
+  getDays(): GoogleNestRuntimeDay[] {
+    this.accumulate(Date.now());
+    return this.days.concat({
+      date: this.today.date,
+      heatingMinutes: toMinutes(this.today.heating),
+      coolingMinutes: toMinutes(this.today.cooling),
+    });
+  }
+
+  dispose() {
+    if (this.rolloverTimer) {
+      clearTimeout(this.rolloverTimer);
+    }
+    this.accumulate(Date.now());
+    return this.save();
+  }
+
+  /**
+   * Adds the time since the last call to the totals of the status, splitting it at midnight.
+   */
+  private accumulate(now: number) {
+    while (this.since < now) {
+      const midnight = nextMidnight(this.since);
+      const end = Math.min(now, midnight);
+      if (this.status === 'HEATING') {
+        this.today.heating += end - this.since;
+      } else if (this.status === 'COOLING') {
+        this.today.cooling += end - this.since;
+      }
+      this.since = end;
+
+      if (end === midnight) {
+        this.closeDay(localDate(end));
+      }
+    }
+  }
+
+  private closeDay(next: string) {
+    const day = {
+      date: this.today.date,
+      heatingMinutes: toMinutes(this.today.heating),
+      coolingMinutes: toMinutes(this.today.cooling),
+    };
+    this.log.info(`${this.displayName} heated for ${day.heatingMinutes} and cooled for ${day.coolingMinutes} minutes on ${day.date}.`);
+
+    this.days.push(day);
+    this.days = this.days.slice(-this.maxDays);
+    this.today = { date: next, heating: 0, cooling: 0 };
+    this.export();
+  }
+
+  private scheduleRollover() {
+    this.rolloverTimer = setTimeout(() => {
+      this.accumulate(Date.now());
+      this.save();
+      this.scheduleRollover();
+    }, nextMidnight(Date.now()) - Date.now() + seconds(1));
+  }
+
+  private async load() {
+    try {
+      const stored: StoredRuntime = JSON.parse(await fs.readFile(path.join(this.directory, this.id + '.state.json'), 'utf8'));
+      this.days = stored.days.concat(this.days);
+      if (stored.today.date === this.today.date) {
+        this.today.heating += stored.today.heating;
+        this.today.cooling += stored.today.cooling;
+      } else if (!this.days.some(day => day.date === stored.today.date)) {
+        // the plugin was not running when that day ended
+        this.days.unshift({
+          date: stored.today.date,
+          heatingMinutes: toMinutes(stored.today.heating),
+          coolingMinutes: toMinutes(stored.today.cooling),
+        });
+        this.days.sort((a, b) => a.date.localeCompare(b.date));
+        this.export();
+      }
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        this.log.error('Reading the runtime of', this.displayName, 'failed:', (e as Error).message);
+      }
+    }
+  }
+
+  private async save() {
+    await this.loaded;
+
+    const stored: StoredRuntime = {
+      today: this.today,
+      days: this.days,
+    };
+    await this.write(this.id + '.state.json', JSON.stringify(stored));
+  }
+
+  /**
+   * Writes the daily totals as CSV and JSON for external analysis.
+   */
+  private async export() {
+    await this.loaded;
+
+    const csv = ['date,heatingMinutes,coolingMinutes']
+      .concat(this.days.map(day => `${day.date},${day.heatingMinutes},${day.coolingMinutes}`));
+    await this.write(this.id + '.csv', csv.join('\n') + '\n');
+    await this.write(this.id + '.json', JSON.stringify(this.days, null, 2));
+  }
+
+  private write(file: string, data: string) {
+    return this.writer.write(path.join(this.directory, file), data);
+  }
+}
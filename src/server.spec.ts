@@ -0,0 +1,104 @@
+import assert from 'assert';
+import http from 'http';
+import { createServer, AddressInfo } from 'net';
+import { DeviceTraits } from './characteristics';
+import { GoogleNestHttpDevice } from './server';
+import { GoogleNestFakeClient } from './test/fakeClient';
+import { TestHomebridge, waitFor } from './test/harness';
+
+const httpToken = 'test-token-0123456789';
+
+const freePort = () => {
+  return new Promise<number>(resolve => {
+    const server = createServer();
+    server.listen(0, '127.0.0.1', () => {
+      const { port } = server.address() as AddressInfo;
+      server.close(() => resolve(port));
+    });
+  });
+};
+
+describe('GoogleNestHttpApi', () => {
+  let homebridge: TestHomebridge;
+  let client: GoogleNestFakeClient;
+  let httpPort: number;
+  let name: string;
+
+  /**
+   * Sends a request with the token unless another authorization is given, resolves with the status and parsed body.
+   */
+  const request = <T = unknown>(method: string, path: string, body?: unknown, authorization = 'Bearer ' + httpToken) => {
+    return new Promise<{ status?: number; body: T }>((resolve, reject) => {
+      const req = http.request({ host: '127.0.0.1', port: httpPort, method, path, headers: { authorization } }, res => {
+        let data = '';
+        res.on('data', chunk => data += chunk);
+        res.on('end', () => resolve({ status: res.statusCode, body: JSON.parse(data) }));
+      });
+      req.on('error', reject);
+      req.end(body === undefined ? undefined : JSON.stringify(body));
+    });
+  };
+
+  beforeEach(async () => {
+    homebridge = new TestHomebridge();
+    client = new GoogleNestFakeClient({ commandsPerMinute: 3 });
+    name = client.addThermostat({ id: 'hall', roomName: 'Hall', mode: 'HEAT', heatCelsius: 19 });
+    client.addCamera({ id: 'door', roomName: 'Door', doorbell: true });
+    httpPort = await freePort();
+    await homebridge.launch({ httpPort, httpToken }, client, 2);
+    await waitFor(() => homebridge.platform!.httpApi!['server']?.listening === true);
+  });
+
+  afterEach(async () => {
+    await homebridge.shutdown();
+  });
+
+  const traits = async () => (await client.getDevice(name)).traits!;
+
+  it('rejects requests without the token', async () => {
+    assert.strictEqual((await request('GET', '/devices', undefined, '')).status, 401);
+    assert.strictEqual((await request('GET', '/devices', undefined, 'Bearer wrong-token-0123456789')).status, 401);
+  });
+
+  it('lists the devices with their state', async () => {
+    const { status, body } = await request<GoogleNestHttpDevice[]>('GET', '/devices');
+
+    assert.strictEqual(status, 200);
+    assert.deepStrictEqual(body.map(device => [device.id, device.displayName, device.online]),
+      [['hall', 'Hall', true], ['door', 'Door', true]]);
+    assert.strictEqual((body[0].traits as DeviceTraits).targetMode, 'HEAT');
+  });
+
+  it('reports devices offline while the API fails', async () => {
+    client.failNext(10, 503);
+    await homebridge.refresh();
+
+    const { body } = await request<GoogleNestHttpDevice[]>('GET', '/devices');
+    assert.deepStrictEqual(body.map(device => device.online), [false, false]);
+  });
+
+  it('passes commands to the device', async () => {
+    const { status, body } = await request<GoogleNestHttpDevice>('PUT', '/devices/hall/setpoint', { celsius: 21 });
+
+    assert.strictEqual(status, 200);
+    assert.strictEqual((body.traits as DeviceTraits).temperatureSetpoint?.heatCelsius, 21);
+    assert.strictEqual((await traits())['sdm.devices.traits.ThermostatTemperatureSetpoint'].heatCelsius, 21);
+  });
+
+  it('answers with the status matching the problem', async () => {
+    assert.strictEqual((await request('GET', '/devices/garage')).status, 404);
+    assert.strictEqual((await request('GET', '/rooms')).status, 404);
+    assert.strictEqual((await request('POST', '/devices/hall/mode', { mode: 'COOL' })).status, 405);
+    assert.strictEqual((await request('PUT', '/devices/hall/mode', { mode: 'DRY' })).status, 400);
+    assert.strictEqual((await request('PUT', '/devices/hall/setpoint', { celsius: 50 })).status, 400);
+    assert.strictEqual((await request('PUT', '/devices/door/mode', { mode: 'COOL' })).status, 409);
+
+    await request('PUT', '/devices/hall/mode', { mode: 'OFF' });
+    assert.strictEqual((await request('PUT', '/devices/hall/setpoint', { celsius: 21 })).status, 409);
+
+    // the rate limit of three commands a minute is used up by now
+    await request('PUT', '/devices/hall/mode', { mode: 'HEAT' });
+    await request('PUT', '/devices/hall/mode', { mode: 'COOL' });
+    assert.strictEqual((await request('PUT', '/devices/hall/mode', { mode: 'HEAT' })).status, 503);
+  });
+});
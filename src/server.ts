@@ -0,0 +1,276 @@
+import { HAP, Logging } from 'homebridge';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { timingSafeEqual } from 'crypto';
+import { URL } from 'url';
+
+/**
+ * A device as listed by the HTTP API, answered from the cached state.
+ */
+export type GoogleNestHttpDevice = {
+  id: string;
+  name: string;
+  displayName: string;
+  info?: unknown;
+  online: boolean;
+  traits?: unknown;
+  // when the traits were last current, in milliseconds since the epoch
+  updatedAt?: number;
+};
+
+export type GoogleNestHttpSetpoint = {
+  // target temperature of the current mode, HEAT or COOL
+  celsius?: number;
+  heatCelsius?: number;
+  coolCelsius?: number;
+};
+
+/**
+ * Receiver of the requests for a single device, commands are left out for devices not supporting them.
+ */
+export interface GoogleNestHttpHandler {
+  describe(): GoogleNestHttpDevice;
+  setMode?(mode: 'HEAT' | 'COOL' | 'HEATCOOL' | 'OFF'): Promise<void>;
+  setSetpoint?(setpoint: GoogleNestHttpSetpoint): Promise<void>;
+  setEco?(enabled: boolean): Promise<void>;
+  setFan?(active: boolean): Promise<void>;
+}
+
+type Body = { [key: string]: unknown };
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// bodies only carry a few fields
+const maxBodySize = 16 * 1024;
+
+const readBody = (req: IncomingMessage): Promise<Body> => {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    req.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBodySize) {
+        reject(new HttpError(413, 'request body too large'));
+        req.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    req.on('end', () => {
+      try {
+        const body = JSON.parse(Buffer.concat(chunks).toString('utf8') || '{}');
+        if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+          throw new Error();
+        }
+        resolve(body);
+      } catch (e) {
+        reject(new HttpError(400, 'request body must be a JSON object'));
+      }
+    });
+    req.on('error', reject);
+  });
+};
+
+const optionalNumber = (body: Body, field: string) => {
+  const value = body[field];
+  if (value !== undefined && (typeof value !== 'number' || !isFinite(value))) {
+    throw new HttpError(400, `"${field}" must be a number`);
+  }
+  return value as number | undefined;
+};
+
+const requiredBoolean = (body: Body, field: string) => {
+  if (typeof body[field] !== 'boolean') {
+    throw new HttpError(400, `"${field}" must be true or false`);
+  }
+  return body[field] as boolean;
+};
+
+/**
+ * Serves a local REST API for scripts and tools outside of HomeKit. Every request must carry the configured
+ * token as `Authorization: Bearer <token>`. Commands run through the same checks as the HomeKit setters.
+ *
+ *   GET /devices                  lists the devices
+ *   GET /devices/{id}             returns a device
+ *   PUT /devices/{id}/mode        {"mode": "HEAT" | "COOL" | "HEATCOOL" | "OFF"}
+ *   PUT /devices/{id}/setpoint    {"celsius": 20} or {"heatCelsius": 19, "coolCelsius": 24}
+ *   PUT /devices/{id}/eco         {"enabled": true}
+ *   PUT /devices/{id}/fan         {"active": true}
+ */
+export class GoogleNestHttpApi {
+  private server?: Server;
+  private handlers = new Map<string, GoogleNestHttpHandler>();
+
+  constructor(
+    private readonly log: Logging,
+    private readonly hap: HAP,
+    private readonly port: number,
+    private readonly host: string,
+    private readonly token: string,
+  ) {}
+
+  register(name: string, handler: GoogleNestHttpHandler) {
+    this.handlers.set(name, handler);
+  }
+
+  unregister(name: string) {
+    this.handlers.delete(name);
+  }
+
+  start() {
+    if (this.server) {
+      return;
+    }
+
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch(e => this.sendError(res, e));
+    });
+    this.server.on('error', e => this.log.error('HTTP API failed:', e.message));
+    this.server.listen(this.port, this.host, () => {
+      this.log.info(`HTTP API listening on http://${this.host}:${this.port}/devices`);
+    });
+  }
+
+  stop() {
+    this.server?.close();
+    this.server = undefined;
+  }
+
+  private isAuthorized(req: IncomingMessage) {
+    const expected = Buffer.from('Bearer ' + this.token);
+    const actual = Buffer.from(req.headers.authorization ?? '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  }
+
+  private findHandler(id: string) {
+    for (const [name, handler] of this.handlers) {
+      if (name.split('/').pop() === id) {
+        return handler;
+      }
+    }
+    throw new HttpError(404, 'unknown device ' + id);
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse) {
+    if (!this.isAuthorized(req)) {
+      throw new HttpError(401, 'missing or invalid token');
+    }
+
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    const [collection, id, action, ...rest] = url.pathname.split('/').filter(segment => segment);
+    if (collection !== 'devices' || rest.length > 0) {
+      throw new HttpError(404, 'not found');
+    }
+
+    if (!id) {
+      this.expectMethod(req, 'GET');
+      this.send(res, 200, Array.from(this.handlers.values()).map(handler => handler.describe()));
+      return;
+    }
+
+    const handler = this.findHandler(id);
+    if (!action) {
+      this.expectMethod(req, 'GET');
+      this.send(res, 200, handler.describe());
+      return;
+    }
+
+    this.expectMethod(req, 'PUT');
+    const body = await readBody(req);
+    this.log.info('HTTP API:', action, 'of', handler.describe().displayName, JSON.stringify(body));
+    await this.executeCommand(handler, action, body);
+    this.send(res, 200, handler.describe());
+  }
+
+  private async executeCommand(handler: GoogleNestHttpHandler, action: string, body: Body) {
+    const unsupported = () => new HttpError(409, `the device does not support ${action} commands`);
+
+    switch (action) {
+      case 'mode': {
+        const mode = body.mode;
+        if (mode !== 'HEAT' && mode !== 'COOL' && mode !== 'HEATCOOL' && mode !== 'OFF') {
+          throw new HttpError(400, '"mode" must be HEAT, COOL, HEATCOOL or OFF');
+        }
+        if (!handler.setMode) {
+          throw unsupported();
+        }
+        await handler.setMode(mode);
+        return;
+      }
+      case 'setpoint': {
+        const setpoint = {
+          celsius: optionalNumber(body, 'celsius'),
+          heatCelsius: optionalNumber(body, 'heatCelsius'),
+          coolCelsius: optionalNumber(body, 'coolCelsius'),
+        };
+        const given = Object.values(setpoint).filter(value => value !== undefined).length;
+        if (given === 0 || setpoint.celsius !== undefined && given > 1) {
+          throw new HttpError(400, 'either "celsius" or "heatCelsius" and/or "coolCelsius" must be given');
+        }
+        if (!handler.setSetpoint) {
+          throw unsupported();
+        }
+        await handler.setSetpoint(setpoint);
+        return;
+      }
+      case 'eco':
+        if (!handler.setEco) {
+          throw unsupported();
+        }
+        await handler.setEco(requiredBoolean(body, 'enabled'));
+        return;
+      case 'fan':
+        if (!handler.setFan) {
+          throw unsupported();
+        }
+        await handler.setFan(requiredBoolean(body, 'active'));
+        return;
+      default:
+        throw new HttpError(404, 'unknown command ' + action);
+    }
+  }
+
+  private expectMethod(req: IncomingMessage, method: string) {
+    if (req.method !== method) {
+      throw new HttpError(405, `only ${method} is allowed`);
+    }
+  }
+
+  /**
+   * Answers with the status matching the error, HomeKit status errors are thrown by the validation of commands.
+   */
+  private sendError(res: ServerResponse, e: unknown) {
+    if (e instanceof HttpError) {
+      this.send(res, e.status, { error: e.message });
+    } else if (e instanceof this.hap.HapStatusError) {
+      switch (e.hapStatus) {
+        case this.hap.HAPStatus.INVALID_VALUE_IN_REQUEST:
+          this.send(res, 400, { error: 'invalid value' });
+          break;
+        case this.hap.HAPStatus.NOT_ALLOWED_IN_CURRENT_STATE:
+          this.send(res, 409, { error: 'not allowed in the current state of the device' });
+          break;
+        case this.hap.HAPStatus.RESOURCE_BUSY:
+          this.send(res, 503, { error: 'the device is busy, try again later' });
+          break;
+        default:
+          this.send(res, 502, { error: 'the device could not be reached' });
+      }
+    } else {
+      this.log.error('HTTP API request failed:', (e as Error).message);
+      this.send(res, 500, { error: (e as Error).message });
+    }
+  }
+
+  private send(res: ServerResponse, status: number, body: unknown) {
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body, null, 2));
+  }
+}
@@ -0,0 +1,42 @@
+export type TemperatureUnit = 'FAHRENHEIT' | 'CELSIUS';
+
+export const fahrenheitToCelsius = (temp: number) => {
+  return (temp - 32) / 1.8;
+};
+
+export const celsiusToFahrenheit = (temp: number) => {
+  return temp * 1.8 + 32;
+};
+
+/**
+ * Returns the setpoints the thermostat accepts in degrees Celsius, configured limits can only narrow the range.
+ */
+export const setpointRange = (unit: TemperatureUnit, limits?: { minCelsius?: number; maxCelsius?: number }) => {
+  const [defaultMin, defaultMax] = unit === 'FAHRENHEIT' ? [fahrenheitToCelsius(50), fahrenheitToCelsius(90)] : [10, 32];
+  return {
+    min: Math.max(defaultMin, limits?.minCelsius ?? defaultMin),
+    max: Math.min(defaultMax, limits?.maxCelsius ?? defaultMax),
+  };
+};
+
+/**
+ * Snaps a setpoint to what the thermostat shows: whole degrees Fahrenheit or half degrees Celsius.
+ */
+export const roundSetpoint = (celsius: number, unit: TemperatureUnit) => {
+  return unit === 'FAHRENHEIT' ? fahrenheitToCelsius(Math.round(celsiusToFahrenheit(celsius))) : Math.round(celsius * 2) / 2;
+};
+
+/**
+ * Snaps a change of setpoints to the steps of the display unit, so that the rounded setpoints move by exactly
+ * that much and moving them back restores them.
+ */
+export const roundSetpointChange = (celsius: number, unit: TemperatureUnit) => {
+  return unit === 'FAHRENHEIT' ? Math.round(celsius * 1.8) / 1.8 : Math.round(celsius * 2) / 2;
+};
+
+/**
+ * Returns how far apart Nest keeps the heat and cool setpoints, in degrees Celsius.
+ */
+export const minimumSetpointGap = (unit: TemperatureUnit) => {
+  return unit === 'FAHRENHEIT' ? 3 / 1.8 : 1.5;
+};
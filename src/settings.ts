@@ -6,4 +6,10 @@ export const PLATFORM_NAME = 'GoogleNest';
 /**
  * This must match the name of your plugin as defined the package.json
  */
-export const PLUGIN_NAME = 'homebridge-nest-google';
\ No newline at end of file
+export const PLUGIN_NAME = 'homebridge-nest-google';
+
+/**
+ * Version of the plugin, read from the package.json one level above both src and dist
+ */
+// eslint-disable-next-line @typescript-eslint/no-var-requires
+export const PLUGIN_VERSION: string = require('../package.json').version;
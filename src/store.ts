@@ -0,0 +1,132 @@
+import { Logging } from 'homebridge';
+import { Device, GoogleNestClient } from './client';
+
+/**
+ * Receiver of the state fetched for a single device.
+ */
+export interface GoogleNestDeviceStoreHandler {
+  // `requestedAt` is the time the request returning the device was sent
+  onDevice(device: Device, requestedAt: number): void;
+  onRefreshFailed(error: Error): void;
+}
+
+/**
+ * Counters of the requests made by the store, logged after every refresh to help tuning the intervals.
+ */
+export type GoogleNestDeviceStoreMetrics = {
+  // refreshes started, each lists all devices of the project
+  refreshes: number;
+  // list requests sent, one per page
+  requests: number;
+  failures: number;
+  // reads which joined a refresh already in flight instead of starting another one
+  coalescedReads: number;
+  lastRefreshAt?: number;
+  lastRefreshDuration?: number;
+};
+
+/**
+ * Keeps the state of all devices of the project, refreshed with a single list request for every device instead of
+ * a get request per device. Fetched devices are distributed to the handlers registered for them, concurrent
+ * refreshes share the same request.
+ */
+export class GoogleNestDeviceStore {
+  private handlers = new Map<string, GoogleNestDeviceStoreHandler>();
+  private inFlight?: Promise<Device[]>;
+  private timer?: NodeJS.Timeout;
+
+  private metrics: GoogleNestDeviceStoreMetrics = {
+    refreshes: 0,
+    requests: 0,
+    failures: 0,
+    coalescedReads: 0,
+  };
+
+  constructor(
+    private readonly log: Logging,
+    private readonly client: GoogleNestClient,
+    private readonly parent: string,
+  ) {}
+
+  register(name: string, handler: GoogleNestDeviceStoreHandler) {
+    this.handlers.set(name, handler);
+  }
+
+  unregister(name: string) {
+    this.handlers.delete(name);
+  }
+
+  getMetrics(): GoogleNestDeviceStoreMetrics {
+    return { ...this.metrics };
+  }
+
+  /**
+   * Periodically refreshes all devices, used when no event subscription is configured.
+   */
+  start(interval: number) {
+    this.stop();
+    this.timer = setInterval(() => {
+      this.refresh().catch(e => this.log.debug('Polling devices failed:', (e as Error).message));
+    }, interval);
+  }
+
+  stop() {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Fetches all devices and passes them to their handlers, joins the refresh in flight if there is one.
+   */
+  refresh(): Promise<Device[]> {
+    if (this.inFlight) {
+      this.metrics.coalescedReads++;
+      return this.inFlight;
+    }
+
+    this.inFlight = this.list().finally(() => {
+      this.inFlight = undefined;
+    });
+    return this.inFlight;
+  }
+
+  private async list(): Promise<Device[]> {
+    const requestedAt = Date.now();
+    this.metrics.refreshes++;
+
+    const devices: Device[] = [];
+    try {
+      let pageToken: string | undefined;
+      do {
+        this.metrics.requests++;
+        const res = await this.client.listDevices(this.parent, pageToken);
+        devices.push(...res.devices);
+        pageToken = res.nextPageToken;
+      } while (pageToken);
+    } catch (e) {
+      this.metrics.failures++;
+      for (const handler of this.handlers.values()) {
+        handler.onRefreshFailed(e as Error);
+      }
+      throw e;
+    }
+
+    this.metrics.lastRefreshAt = requestedAt;
+    this.metrics.lastRefreshDuration = Date.now() - requestedAt;
+    this.log.debug(`Refreshed ${devices.length} devices in ${this.metrics.lastRefreshDuration} ms,`,
+      `${this.metrics.requests} requests for ${this.metrics.refreshes} refreshes so far`,
+      `(${this.metrics.coalescedReads} reads coalesced, ${this.metrics.failures} failed).`);
+
+    for (const [name, handler] of this.handlers) {
+      const device = devices.find(d => d.name === name);
+      if (device) {
+        handler.onDevice(device, requestedAt);
+      } else {
+        handler.onRefreshFailed(new Error('the device is no longer listed'));
+      }
+    }
+    return devices;
+  }
+}
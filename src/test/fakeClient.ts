@@ -0,0 +1,367 @@
+import { CommandParams, CommandResults, Device, GoogleNestClient, GoogleNestClientError } from '../client';
+import { seconds } from '../api';
+
+export type GoogleNestFakeThermostatOptions = {
+  id: string;
+  roomName?: string;
+  // name given to the device in the Google Home app
+  customName?: string;
+  availableModes?: string[];
+  mode?: string;
+  ecoMode?: string;
+  ecoHeatCelsius?: number;
+  ecoCoolCelsius?: number;
+  heatCelsius?: number;
+  coolCelsius?: number;
+  ambientCelsius?: number;
+  humidityPercent?: number;
+  temperatureScale?: string;
+  // reports the ThermostatEco trait, true unless set
+  eco?: boolean;
+  fan?: boolean;
+};
+
+export type GoogleNestFakeCameraOptions = {
+  id: string;
+  roomName?: string;
+  // a doorbell reports chimes besides the camera events
+  doorbell?: boolean;
+};
+
+export type GoogleNestFakeClientOptions = {
+  projectId?: string;
+  pageSize?: number;
+  // executed commands allowed per device and minute, further commands are rejected as rate limited
+  commandsPerMinute?: number;
+};
+
+const copy = (device: Device): Device => {
+  return JSON.parse(JSON.stringify(device));
+};
+
+const invalidArgument = (message: string) => {
+  return new GoogleNestClientError(400, 'INVALID_ARGUMENT', message);
+};
+
+const failedPrecondition = (message: string) => {
+  return new GoogleNestClientError(400, 'FAILED_PRECONDITION', message);
+};
+
+/**
+ * In-process {@link GoogleNestClient} simulating thermostats and cameras, for driving the accessory handlers without a
+ * Google project. Commands are validated the way the Smart Device Management API does and update the simulated
+ * traits, the HVAC status follows from the mode, the setpoints and the ambient temperature.
+ */
+export class GoogleNestFakeClient implements GoogleNestClient {
+  private readonly devices = new Map<string, Device>();
+  private readonly commandTimes = new Map<string, number[]>();
+  private failures: { count: number; status?: number } = { count: 0 };
+
+  private readonly parent = 'enterprises/' + (this.options.projectId ?? 'fake-project');
+  private readonly pageSize = this.options.pageSize ?? 100;
+  private readonly commandsPerMinute = this.options.commandsPerMinute ?? 10;
+
+  constructor(
+    private readonly options: GoogleNestFakeClientOptions = {},
+  ) {}
+
+  /**
+   * Adds a thermostat, returns its device name.
+   */
+  addThermostat(options: GoogleNestFakeThermostatOptions): string {
+    const name = `${this.parent}/devices/${options.id}`;
+    const availableModes = options.availableModes ?? ['HEAT', 'COOL', 'HEATCOOL', 'OFF'];
+
+    const device: Device = {
+      name,
+      type: 'sdm.devices.types.THERMOSTAT',
+      parentRelations: [{
+        parent: `${this.parent}/structures/fake-structure/rooms/${options.id}`,
+        displayName: options.roomName ?? options.id,
+      }],
+      traits: {
+        'sdm.devices.traits.Info': { customName: options.customName ?? '' },
+        'sdm.devices.traits.Connectivity': { status: 'ONLINE' },
+        'sdm.devices.traits.Settings': { temperatureScale: options.temperatureScale ?? 'CELSIUS' },
+        'sdm.devices.traits.Temperature': { ambientTemperatureCelsius: options.ambientCelsius ?? 20 },
+        'sdm.devices.traits.Humidity': { ambientHumidityPercent: options.humidityPercent ?? 45 },
+        'sdm.devices.traits.ThermostatMode': { mode: options.mode ?? 'HEAT', availableModes },
+        'sdm.devices.traits.ThermostatHvac': { status: 'OFF' },
+        'sdm.devices.traits.ThermostatTemperatureSetpoint': {},
+      },
+    };
+    if (options.eco ?? true) {
+      device.traits!['sdm.devices.traits.ThermostatEco'] = {
+        availableModes: ['MANUAL_ECO', 'OFF'],
+        mode: options.ecoMode ?? 'OFF',
+        heatCelsius: options.ecoHeatCelsius ?? 10,
+        coolCelsius: options.ecoCoolCelsius ?? 30,
+      };
+    }
+    if (options.fan) {
+      device.traits!['sdm.devices.traits.Fan'] = { timerMode: 'OFF' };
+    }
+
+    this.devices.set(name, device);
+    this.setSetpoints(device, options.heatCelsius ?? 19, options.coolCelsius ?? 24);
+    return name;
+  }
+
+  /**
+   * Changes the temperature (and humidity) measured by a thermostat.
+   */
+  setAmbient(name: string, celsius: number, humidityPercent?: number) {
+    const traits = this.find(name).traits!;
+    traits['sdm.devices.traits.Temperature'].ambientTemperatureCelsius = celsius;
+    if (humidityPercent !== undefined) {
+      traits['sdm.devices.traits.Humidity'].ambientHumidityPercent = humidityPercent;
+    }
+    this.updateHvacStatus(this.find(name));
+  }
+
+  /**
+   * Adds a camera without a live stream, its events are published through Pub/Sub. Returns its device name.
+   */
+  addCamera(options: GoogleNestFakeCameraOptions): string {
+    const name = `${this.parent}/devices/${options.id}`;
+    const device: Device = {
+      name,
+      type: options.doorbell ? 'sdm.devices.types.DOORBELL' : 'sdm.devices.types.CAMERA',
+      parentRelations: [{
+        parent: `${this.parent}/structures/fake-structure/rooms/${options.id}`,
+        displayName: options.roomName ?? options.id,
+      }],
+      traits: {
+        'sdm.devices.traits.Info': { customName: '' },
+        'sdm.devices.traits.CameraMotion': {},
+        'sdm.devices.traits.CameraPerson': {},
+        'sdm.devices.traits.CameraSound': {},
+      },
+    };
+    if (options.doorbell) {
+      device.traits!['sdm.devices.traits.DoorbellChime'] = {};
+    }
+
+    this.devices.set(name, device);
+    return name;
+  }
+
+  /**
+   * Moves a device to a room of the given name, as done in the Google Home app.
+   */
+  setRoomName(name: string, roomName: string) {
+    this.find(name).parentRelations![0].displayName = roomName;
+  }
+
+  /**
+   * Removes a device, as done in the Google Home app.
+   */
+  removeDevice(name: string) {
+    this.find(name);
+    this.devices.delete(name);
+  }
+
+  /**
+   * Takes a thermostat offline, its traits keep the last known values like the real API does.
+   */
+  setOnline(name: string, online: boolean) {
+    this.find(name).traits!['sdm.devices.traits.Connectivity'].status = online ? 'ONLINE' : 'OFFLINE';
+  }
+
+  /**
+   * Fails the next requests with the given HTTP status, or with a network error if no status is given.
+   */
+  failNext(count: number, status?: number) {
+    this.failures = { count, status };
+  }
+
+  async listDevices(parent: string, pageToken?: string) {
+    this.checkFailure();
+
+    const devices = Array.from(this.devices.values()).filter(device => device.name!.startsWith(parent + '/'));
+    const start = Number(pageToken ?? 0);
+    const end = start + this.pageSize;
+    return {
+      devices: devices.slice(start, end).map(copy),
+      nextPageToken: end < devices.length ? String(end) : undefined,
+    };
+  }
+
+  async getDevice(name: string) {
+    this.checkFailure();
+    return copy(this.find(name));
+  }
+
+  async executeCommand(name: string, command: string, params: CommandParams): Promise<CommandResults> {
+    this.checkFailure();
+    const device = this.find(name);
+    this.checkRateLimit(name);
+    if (device.type !== 'sdm.devices.types.THERMOSTAT') {
+      throw invalidArgument('Command not supported.');
+    }
+
+    const traits = device.traits!;
+    if (traits['sdm.devices.traits.Connectivity'].status !== 'ONLINE') {
+      throw failedPrecondition('Thermostat is offline.');
+    }
+
+    const mode = traits['sdm.devices.traits.ThermostatMode'];
+    const eco = traits['sdm.devices.traits.ThermostatEco'];
+    const setpoint = traits['sdm.devices.traits.ThermostatTemperatureSetpoint'];
+
+    switch (command) {
+      case 'sdm.devices.commands.ThermostatMode.SetMode':
+        if (!mode.availableModes.includes(params.mode)) {
+          throw invalidArgument(`Invalid mode ${params.mode}.`);
+        }
+        mode.mode = params.mode;
+        // changing the mode leaves eco mode
+        if (eco) {
+          eco.mode = 'OFF';
+        }
+        this.setSetpoints(device, setpoint.heatCelsius ?? 19, setpoint.coolCelsius ?? 24);
+        break;
+      case 'sdm.devices.commands.ThermostatEco.SetMode':
+        if (!eco) {
+          throw invalidArgument('Command not supported.');
+        }
+        if (!eco.availableModes.includes(params.mode)) {
+          throw invalidArgument(`Invalid eco mode ${params.mode}.`);
+        }
+        if (mode.mode === 'OFF' && params.mode !== 'OFF') {
+          throw failedPrecondition('Cannot enable eco mode while the thermostat is off.');
+        }
+        eco.mode = params.mode;
+        break;
+      case 'sdm.devices.commands.ThermostatTemperatureSetpoint.SetHeat':
+        this.checkSetpointMode(device, 'HEAT');
+        this.checkTemperature(params.heatCelsius);
+        setpoint.heatCelsius = params.heatCelsius;
+        break;
+      case 'sdm.devices.commands.ThermostatTemperatureSetpoint.SetCool':
+        this.checkSetpointMode(device, 'COOL');
+        this.checkTemperature(params.coolCelsius);
+        setpoint.coolCelsius = params.coolCelsius;
+        break;
+      case 'sdm.devices.commands.ThermostatTemperatureSetpoint.SetRange':
+        this.checkSetpointMode(device, 'HEATCOOL');
+        this.checkTemperature(params.heatCelsius);
+        this.checkTemperature(params.coolCelsius);
+        if ((params.heatCelsius as number) >= (params.coolCelsius as number)) {
+          throw invalidArgument('Heat setpoint must be lower than the cool setpoint.');
+        }
+        setpoint.heatCelsius = params.heatCelsius;
+        setpoint.coolCelsius = params.coolCelsius;
+        break;
+      case 'sdm.devices.commands.Fan.SetTimer': {
+        const fan = traits['sdm.devices.traits.Fan'];
+        if (!fan) {
+          throw invalidArgument('Command not supported.');
+        }
+        if (params.timerMode === 'ON') {
+          const duration = parseInt(String(params.duration ?? '900s'), 10);
+          if (!(duration >= 1 && duration <= 43200)) {
+            throw invalidArgument(`Invalid duration ${params.duration}.`);
+          }
+          traits['sdm.devices.traits.Fan'] = { timerMode: 'ON', timerTimeout: new Date(Date.now() + seconds(duration)).toISOString() };
+        } else if (params.timerMode === 'OFF') {
+          traits['sdm.devices.traits.Fan'] = { timerMode: 'OFF' };
+        } else {
+          throw invalidArgument(`Invalid timer mode ${params.timerMode}.`);
+        }
+        break;
+      }
+      default:
+        throw invalidArgument('Command not supported.');
+    }
+
+    this.updateHvacStatus(device);
+    return {};
+  }
+
+  private find(name: string) {
+    const device = this.devices.get(name);
+    if (!device) {
+      throw new GoogleNestClientError(404, 'NOT_FOUND', `Device ${name} not found.`);
+    }
+    return device;
+  }
+
+  private checkFailure() {
+    if (this.failures.count <= 0) {
+      return;
+    }
+
+    this.failures.count--;
+    if (this.failures.status === undefined) {
+      throw Object.assign(new Error('socket hang up'), { code: 'ECONNRESET' });
+    }
+    throw new GoogleNestClientError(this.failures.status, this.failures.status >= 500 ? 'UNAVAILABLE' : 'FAILED_PRECONDITION',
+      'Simulated failure.');
+  }
+
+  private checkRateLimit(name: string) {
+    const now = Date.now();
+    const times = (this.commandTimes.get(name) ?? []).filter(time => now - time < seconds(60));
+    if (times.length >= this.commandsPerMinute) {
+      const retryAfter = Math.ceil((times[0] + seconds(60) - now) / 1000);
+      throw new GoogleNestClientError(429, 'RESOURCE_EXHAUSTED', 'Rate limited.', { 'retry-after': String(retryAfter) });
+    }
+
+    times.push(now);
+    this.commandTimes.set(name, times);
+  }
+
+  private checkSetpointMode(device: Device, expected: string) {
+    const traits = device.traits!;
+    if ((traits['sdm.devices.traits.ThermostatEco']?.mode ?? 'OFF') !== 'OFF') {
+      throw failedPrecondition('Cannot change setpoint while in eco mode.');
+    }
+    if (traits['sdm.devices.traits.ThermostatMode'].mode !== expected) {
+      throw failedPrecondition(`Cannot change setpoint in ${traits['sdm.devices.traits.ThermostatMode'].mode} mode.`);
+    }
+  }
+
+  private checkTemperature(value: unknown) {
+    if (typeof value !== 'number' || !(value >= 9 && value <= 32)) {
+      throw invalidArgument(`Invalid temperature ${value}.`);
+    }
+  }
+
+  /**
+   * Exposes the setpoints matching the thermostat mode, like the real API does.
+   */
+  private setSetpoints(device: Device, heatCelsius: number, coolCelsius: number) {
+    const traits = device.traits!;
+    switch (traits['sdm.devices.traits.ThermostatMode'].mode) {
+      case 'HEAT':
+        traits['sdm.devices.traits.ThermostatTemperatureSetpoint'] = { heatCelsius };
+        break;
+      case 'COOL':
+        traits['sdm.devices.traits.ThermostatTemperatureSetpoint'] = { coolCelsius };
+        break;
+      case 'HEATCOOL':
+        traits['sdm.devices.traits.ThermostatTemperatureSetpoint'] = { heatCelsius, coolCelsius };
+        break;
+      default:
+        traits['sdm.devices.traits.ThermostatTemperatureSetpoint'] = {};
+    }
+    this.updateHvacStatus(device);
+  }
+
+  private updateHvacStatus(device: Device) {
+    const traits = device.traits!;
+    const mode = traits['sdm.devices.traits.ThermostatMode'].mode;
+    const eco = traits['sdm.devices.traits.ThermostatEco'];
+    const setpoint = (eco?.mode ?? 'OFF') === 'OFF' ? traits['sdm.devices.traits.ThermostatTemperatureSetpoint'] : eco;
+    const ambient = traits['sdm.devices.traits.Temperature'].ambientTemperatureCelsius;
+
+    let status = 'OFF';
+    if ((mode === 'HEAT' || mode === 'HEATCOOL') && ambient < setpoint.heatCelsius - 0.5) {
+      status = 'HEATING';
+    } else if ((mode === 'COOL' || mode === 'HEATCOOL') && ambient > setpoint.coolCelsius + 0.5) {
+      status = 'COOLING';
+    }
+    traits['sdm.devices.traits.ThermostatHvac'] = { status };
+  }
+}
@@ -0,0 +1,132 @@
+import { Characteristic, CharacteristicValue, Logging, LogLevel, PlatformAccessory, PlatformConfig, Service, WithUUID } from 'homebridge';
+import { HomebridgeAPI, InternalAPIEvent } from 'homebridge/lib/api';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { format } from 'util';
+import { GoogleNestPlatform } from '../platform';
+import { GoogleNestClient } from '../client';
+
+export const { hap } = new HomebridgeAPI();
+
+/**
+ * Logger keeping the messages for assertions instead of printing them.
+ */
+export type TestLog = Logging & { messages: { level: LogLevel; message: string }[] };
+
+export const createLog = (): TestLog => {
+  const messages: TestLog['messages'] = [];
+  const log = ((message: string, ...parameters: unknown[]) => log.log(LogLevel.INFO, message, ...parameters)) as TestLog;
+  log.prefix = 'Google Nest';
+  log.messages = messages;
+  log.log = (level, message, ...parameters) => messages.push({ level, message: format(message, ...parameters) });
+  log.info = (message, ...parameters) => log.log(LogLevel.INFO, message, ...parameters);
+  log.success = (message, ...parameters) => log.log(LogLevel.SUCCESS, message, ...parameters);
+  log.warn = (message, ...parameters) => log.log(LogLevel.WARN, message, ...parameters);
+  log.error = (message, ...parameters) => log.log(LogLevel.ERROR, message, ...parameters);
+  log.debug = (message, ...parameters) => log.log(LogLevel.DEBUG, message, ...parameters);
+  return log;
+};
+
+/**
+ * Resolves once the condition holds, polling it until the timeout.
+ */
+export const waitFor = async (condition: () => boolean | Promise<boolean>, timeout = 5000) => {
+  const until = Date.now() + timeout;
+  while (!(await condition())) {
+    if (Date.now() > until) {
+      throw new Error('Timed out waiting for the condition.');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+};
+
+/**
+ * Reads a characteristic the way a HomeKit controller does, failures reject with the HAP status.
+ */
+export const read = (service: Service, characteristic: WithUUID<new () => Characteristic>) => {
+  return service.getCharacteristic(characteristic).handleGetRequest();
+};
+
+/**
+ * Writes a characteristic the way a HomeKit controller does, failures reject with the HAP status.
+ */
+export const write = (service: Service, characteristic: WithUUID<new () => Characteristic>, value: CharacteristicValue) => {
+  return service.getCharacteristic(characteristic).handleSetRequest(value);
+};
+
+/**
+ * Runs the platform in a Homebridge API of its own, with a storage directory removed once shut down.
+ */
+export class TestHomebridge {
+  readonly storagePath = fs.mkdtempSync(path.join(os.tmpdir(), 'homebridge-nest-google-'));
+  readonly api = Object.assign(new HomebridgeAPI(), { user: { storagePath: () => this.storagePath } });
+  readonly log = createLog();
+  // accessories registered by the platform
+  readonly accessories: PlatformAccessory[] = [];
+  platform?: GoogleNestPlatform;
+
+  constructor() {
+    this.api.on(InternalAPIEvent.REGISTER_PLATFORM_ACCESSORIES, accessories => this.accessories.push(...accessories));
+    this.api.on(InternalAPIEvent.UNREGISTER_PLATFORM_ACCESSORIES, accessories => {
+      for (const accessory of accessories) {
+        this.accessories.splice(this.accessories.indexOf(accessory), 1);
+      }
+    });
+  }
+
+  /**
+   * Starts the platform and waits until it registered the given number of accessories.
+   */
+  async launch(config: Partial<PlatformConfig>, client: GoogleNestClient, accessories = 1) {
+    this.platform = new GoogleNestPlatform(this.log, {
+      platform: 'GoogleNest',
+      projectId: 'fake-project',
+      clientId: 'client-id',
+      clientSecret: 'client-secret',
+      refreshToken: 'refresh-token',
+      historyDays: 0,
+      ...config,
+    }, this.api, client);
+    this.api.signalFinished();
+    await waitFor(() => this.accessories.length >= accessories);
+    return this.platform;
+  }
+
+  /**
+   * Refreshes the devices of every account like a poll does, failures are left to the handlers.
+   */
+  async refresh() {
+    for (const account of this.platform!['accounts']) {
+      await account.store.refresh().catch(() => undefined);
+    }
+  }
+
+  /**
+   * Discovers the devices of every account like the discovery interval does.
+   */
+  async discover() {
+    for (const account of this.platform!['accounts']) {
+      await this.platform!.discoverDevices(account);
+    }
+  }
+
+  /**
+   * Returns the service of the registered accessory of the given name.
+   */
+  service(displayName: string, service: WithUUID<typeof Service>, subtype?: string) {
+    const accessory = this.accessories.find(a => a.displayName === displayName);
+    const found = subtype ? accessory?.getServiceById(service, subtype) : accessory?.getService(service);
+    if (!found) {
+      throw new Error(`No service ${service.name} on ${displayName}.`);
+    }
+    return found;
+  }
+
+  async shutdown() {
+    this.api.emit('shutdown');
+    // the handlers write what they persist on shutdown
+    await new Promise(resolve => setTimeout(resolve, 50));
+    fs.rmSync(this.storagePath, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,78 @@
+import { Logging } from 'homebridge';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { seconds } from './api';
+import { Device } from './client';
+import { GoogleNestFileWriter } from './fileWriter';
+
+/**
+ * The last known state of a device, with the time it was current.
+ */
+export type GoogleNestStoredDevice = {
+  device: Device;
+  updatedAt: number;
+};
+
+const deviceFile = (storagePath: string, name: string) => {
+  return path.join(storagePath, 'devices', name.split('/').pop() + '.json');
+};
+
+/**
+ * Persists the last known state of a device in the storage path of the plugin, so that it can be served after a
+ * restart while the API can't be reached.
+ */
+export class GoogleNestTraitCache {
+  private stored?: string;
+  private storedAt = 0;
+  private writer = new GoogleNestFileWriter(e => this.log.error('Storing the state of', this.displayName, 'failed:', e.message));
+
+  // unchanged states are written again this often, to keep the time they were current
+  private refreshInterval = seconds(60);
+  private file = deviceFile(this.storagePath, this.name);
+
+  constructor(
+    private readonly log: Logging,
+    private readonly displayName: string,
+    private readonly name: string,
+    private readonly storagePath: string,
+  ) {}
+
+  /**
+   * Reads the stored state of a device, undefined if there is none.
+   */
+  static async load(log: Logging, storagePath: string, name: string): Promise<GoogleNestStoredDevice | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(deviceFile(storagePath, name), 'utf8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.error('Reading the stored state of', name, 'failed:', (e as Error).message);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Removes the stored state, used once the device is gone.
+   */
+  static async remove(log: Logging, storagePath: string, name: string) {
+    try {
+      await fs.unlink(deviceFile(storagePath, name));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code !== 'ENOENT') {
+        log.error('Removing the stored state of', name, 'failed:', (e as Error).message);
+      }
+    }
+  }
+
+  save(device: Device, updatedAt: number) {
+    const data = JSON.stringify(device);
+    if (data === this.stored && updatedAt - this.storedAt < this.refreshInterval) {
+      return this.writer.flush();
+    }
+    this.stored = data;
+    this.storedAt = updatedAt;
+
+    const stored: GoogleNestStoredDevice = { device, updatedAt };
+    return this.writer.write(this.file, JSON.stringify(stored));
+  }
+}